@@ -0,0 +1,20 @@
+// Resolves the Firebase user behind an `Authorization: Bearer <ID token>` header. The lookup
+// fails for tokens that are expired or were issued before the account's tokens were revoked.
+// Requires FIREBASE_API_KEY.
+export async function getUserId(authorization: string | null): Promise<string | null> {
+  const idToken = authorization?.replace(/^Bearer /, '');
+  if (!idToken) return null;
+
+  const response = await fetch(
+    `https://identitytoolkit.googleapis.com/v1/accounts:lookup?key=${process.env.FIREBASE_API_KEY}`,
+    {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ idToken }),
+    }
+  );
+  if (!response.ok) return null;
+
+  const data = await response.json();
+  return data.users?.[0]?.localId ?? null;
+}
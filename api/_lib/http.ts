@@ -0,0 +1,6 @@
+// Reads a JSON request body. Resolves null when the body is missing or is not a JSON object, so
+// callers can answer 400 instead of letting the parse error become a 500.
+export async function readJsonBody<T extends object>(request: Request): Promise<Partial<T> | null> {
+  const body: unknown = await request.json().catch(() => null);
+  return typeof body === 'object' && body !== null && !Array.isArray(body) ? (body as Partial<T>) : null;
+}
@@ -0,0 +1,63 @@
+import { createHash } from 'node:crypto';
+import { getUserId } from './_lib/auth';
+import { readJsonBody } from './_lib/http';
+
+// Deletes a user's Cloudinary uploads. Runs as a Vercel function because destroying an asset
+// needs the API secret. Only assets under the caller's users/<uid>/ folder are touched.
+// Requires CLOUDINARY_CLOUD_NAME, CLOUDINARY_API_KEY, CLOUDINARY_API_SECRET and FIREBASE_API_KEY.
+
+interface Asset {
+  publicId: string;
+  resourceType: string;
+}
+
+async function destroy(asset: Asset): Promise<boolean> {
+  const timestamp = Math.floor(Date.now() / 1000).toString();
+  const signature = createHash('sha1')
+    .update(`invalidate=true&public_id=${asset.publicId}&timestamp=${timestamp}${process.env.CLOUDINARY_API_SECRET}`)
+    .digest('hex');
+
+  const body = new URLSearchParams({
+    public_id: asset.publicId,
+    invalidate: 'true',
+    timestamp,
+    api_key: process.env.CLOUDINARY_API_KEY ?? '',
+    signature,
+  });
+
+  const response = await fetch(
+    `https://api.cloudinary.com/v1_1/${process.env.CLOUDINARY_CLOUD_NAME}/${asset.resourceType}/destroy`,
+    { method: 'POST', body }
+  );
+  if (!response.ok) return false;
+
+  const data = await response.json();
+  return data.result === 'ok' || data.result === 'not found';
+}
+
+export async function POST(request: Request): Promise<Response> {
+  const userId = await getUserId(request.headers.get('authorization'));
+  if (!userId) {
+    return Response.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { assets } = (await readJsonBody<{ assets: Asset[] }>(request)) ?? {};
+  if (!Array.isArray(assets) || !assets.every((asset) => typeof asset?.publicId === 'string')) {
+    return Response.json({ error: 'Expected a list of assets' }, { status: 400 });
+  }
+
+  const deleted: string[] = [];
+  const skipped: string[] = [];
+  const folder = `users/${userId}/`;
+
+  for (const asset of assets) {
+    const allowed = asset.publicId.startsWith(folder) && (asset.resourceType === 'image' || asset.resourceType === 'video');
+    if (allowed && (await destroy(asset))) {
+      deleted.push(asset.publicId);
+    } else {
+      skipped.push(asset.publicId);
+    }
+  }
+
+  return Response.json({ deleted, skipped });
+}
@@ -0,0 +1,70 @@
+import { createHash } from 'node:crypto';
+import { commit, documentName, getDocument, googleFetch } from './_lib/firebaseAdmin';
+import { readJsonBody } from './_lib/http';
+
+// Redeems a two-step verification recovery code. The code does not stand in for the authenticator:
+// it is deleted and the account's second factors are removed, so the user signs in with their
+// password or provider and must set up a new authenticator. Nothing that produces codes is revealed.
+
+interface RecoveryRequest {
+  code: string;
+  // The enrolled factor named by the pending sign-in, only known after the first factor succeeded
+  factorUid: string;
+}
+
+const invalid = () =>
+  Response.json({ error: 'This recovery code is not valid or has already been used' }, { status: 400 });
+
+function identityUrl(method: string): string {
+  return `https://identitytoolkit.googleapis.com/v1/projects/${process.env.FIREBASE_PROJECT_ID}/accounts:${method}`;
+}
+
+async function getEnrolledFactorIds(userId: string): Promise<string[]> {
+  const response = await googleFetch(identityUrl('lookup'), {
+    method: 'POST',
+    body: JSON.stringify({ localId: [userId] }),
+  });
+  if (!response.ok) return [];
+
+  const data = await response.json();
+  return (data.users?.[0]?.mfaInfo ?? []).map((factor: { mfaEnrollmentId: string }) => factor.mfaEnrollmentId);
+}
+
+export async function POST(request: Request): Promise<Response> {
+  const { code, factorUid } = (await readJsonBody<RecoveryRequest>(request)) ?? {};
+  if (typeof code !== 'string' || typeof factorUid !== 'string' || !code) {
+    return invalid();
+  }
+
+  // Matches recoveryCodeId in src/lib/mfa.ts
+  const codeId = createHash('sha256').update(code.toLowerCase().replace(/[^a-z0-9]/g, '')).digest('hex');
+  const record = await getDocument(`mfaRecovery/${codeId}`);
+  if (!record) return invalid();
+
+  const userId = record.fields.ownerId as string;
+  if (!(await getEnrolledFactorIds(userId)).includes(factorUid)) {
+    return invalid();
+  }
+
+  // Deleting with a precondition first means two requests racing with the same code cannot both win
+  if (!(await commit([{ delete: record.name, currentDocument: { updateTime: record.updateTime } }]))) {
+    return invalid();
+  }
+
+  const removed = await googleFetch(identityUrl('update'), {
+    method: 'POST',
+    body: JSON.stringify({ localId: userId, mfa: {} }),
+  });
+  if (!removed.ok) {
+    return Response.json({ error: 'Failed to use this recovery code' }, { status: 500 });
+  }
+
+  await commit([
+    {
+      update: { name: documentName(`settings/${userId}`), fields: { mfaReenrollRequired: { booleanValue: true } } },
+      updateMask: { fieldPaths: ['mfaReenrollRequired'] },
+    },
+  ]);
+
+  return Response.json({ recovered: true });
+}
@@ -0,0 +1,26 @@
+import { getUserId } from './_lib/auth';
+import { googleFetch } from './_lib/firebaseAdmin';
+
+// Revokes every refresh token on the caller's account. Firebase cannot revoke a single device's
+// token, so this signs out all devices at once; the caller signs in again straight after to keep
+// its own. Without it a revoked device that ignores its session record stays signed in.
+
+export async function POST(request: Request): Promise<Response> {
+  const userId = await getUserId(request.headers.get('authorization'));
+  if (!userId) {
+    return Response.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const response = await googleFetch(
+    `https://identitytoolkit.googleapis.com/v1/projects/${process.env.FIREBASE_PROJECT_ID}/accounts:update`,
+    {
+      method: 'POST',
+      body: JSON.stringify({ localId: userId, validSince: String(Math.floor(Date.now() / 1000)) }),
+    }
+  );
+  if (!response.ok) {
+    return Response.json({ error: 'Failed to sign out other devices' }, { status: 500 });
+  }
+
+  return Response.json({ revoked: true });
+}
@@ -0,0 +1,67 @@
+import { commit, documentName, getDocument } from './_lib/firebaseAdmin';
+import { readJsonBody } from './_lib/http';
+
+// Serves one-time share links. Security rules keep shares unreadable to everyone but their
+// owner, so the view limit and burn-after-reading are enforced here rather than in the browser.
+// The server never sees the key: it lives in the link's fragment and only its hash is stored.
+
+interface ShareRequest {
+  id: string;
+  keyHash: string;
+  // False only checks that the link is still live without using up a view
+  open: boolean;
+}
+
+const MAX_ATTEMPTS = 3;
+
+const gone = () => Response.json({ error: 'This link has already been used or has expired.' }, { status: 404 });
+
+export async function POST(request: Request): Promise<Response> {
+  const { id, keyHash, open } = (await readJsonBody<ShareRequest>(request)) ?? {};
+  if (typeof id !== 'string' || !/^[A-Za-z0-9]+$/.test(id)) {
+    return Response.json({ error: 'Invalid link' }, { status: 400 });
+  }
+
+  for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+    const share = await getDocument(`shares/${id}`);
+    if (!share) return gone();
+
+    const { payload, keyHash: storedKeyHash, views, maxViews, expiresAt } = share.fields as {
+      payload: unknown;
+      keyHash?: string;
+      views: number;
+      maxViews: number;
+      expiresAt: Date;
+    };
+    const precondition = { currentDocument: { updateTime: share.updateTime } };
+
+    // Without a stored hash there is nothing to check the link's key against, so it is never served
+    if (typeof storedKeyHash !== 'string' || expiresAt <= new Date()) {
+      await commit([{ delete: share.name, ...precondition }]);
+      return gone();
+    }
+    if (!open) {
+      return Response.json({ available: true });
+    }
+    // A wrong key does not count as a view
+    if (storedKeyHash !== keyHash) {
+      return Response.json({ error: 'This link is incomplete. Ask the sender for the full link.' }, { status: 400 });
+    }
+
+    const nextViews = views + 1;
+    const write =
+      nextViews >= maxViews
+        ? { delete: share.name, ...precondition }
+        : {
+            update: { name: documentName(`shares/${id}`), fields: { views: { integerValue: String(nextViews) } } },
+            updateMask: { fieldPaths: ['views'] },
+            ...precondition,
+          };
+
+    if (await commit([write])) {
+      return Response.json({ payload, viewsLeft: maxViews - nextViews, expiresAt });
+    }
+  }
+
+  return Response.json({ error: 'Failed to open this link' }, { status: 409 });
+}
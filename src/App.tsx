@@ -5,39 +5,77 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route, Navigate } from "react-router-dom";
 import { onAuthStateChanged } from 'firebase/auth';
-import { auth } from '@/lib/firebase';
+import { doc, onSnapshot } from 'firebase/firestore';
+import { auth, db } from '@/lib/firebase';
 import { useAuthStore } from '@/stores/authStore';
+import { useSettingsStore } from '@/stores/settingsStore';
 import { AppLayout } from '@/components/layout/AppLayout';
 import { ProtectedRoute } from '@/components/auth/ProtectedRoute';
+import { useEmergencyAccessSync } from '@/hooks/use-emergency-access';
+import { useRotationReminders } from '@/hooks/use-rotation-reminders';
+import { useSessionGuard } from '@/hooks/use-session-guard';
+import { registerSession } from '@/lib/sessions';
 
 import Auth from "./pages/Auth";
 import Dashboard from "./pages/Dashboard";
 import Passwords from "./pages/Passwords";
+import PasswordAudit from "./pages/PasswordAudit";
 import Notes from "./pages/Notes";
 import Todos from "./pages/Todos";
 import Vault from "./pages/Vault";
 import Expenses from "./pages/Expenses";
 import Income from "./pages/Income";
+import EmergencyAccess from "./pages/EmergencyAccess";
+import EmergencyVault from "./pages/EmergencyVault";
+import SharedSecret from "./pages/SharedSecret";
+import SecuritySettings from "./pages/SecuritySettings";
+import Sessions from "./pages/Sessions";
+import AccountSettings from "./pages/AccountSettings";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
 
 function AppContent() {
-  const { setUser, setLoading } = useAuthStore();
+  const { user, setUser, setLoading, setSessionId } = useAuthStore();
+  const { loadSettings } = useSettingsStore();
+
+  useEmergencyAccessSync();
+  useRotationReminders();
+  useSessionGuard();
 
   useEffect(() => {
     const unsubscribe = onAuthStateChanged(auth, (user) => {
       setUser(user);
       setLoading(false);
+
+      if (user) {
+        registerSession(user)
+          .then(setSessionId)
+          .catch(() => setSessionId(null));
+      }
+    });
+
+    return () => unsubscribe();
+  }, [setUser, setLoading, setSessionId]);
+
+  useEffect(() => {
+    if (!user) {
+      loadSettings(null);
+      return;
+    }
+
+    const unsubscribe = onSnapshot(doc(db, 'settings', user.uid), (snapshot) => {
+      loadSettings(user.uid, snapshot.data());
     });
 
     return () => unsubscribe();
-  }, [setUser, setLoading]);
+  }, [user, loadSettings]);
 
   return (
     <Routes>
       <Route path="/" element={<Navigate to="/dashboard" replace />} />
       <Route path="/auth" element={<Auth />} />
+      <Route path="/s/:id" element={<SharedSecret />} />
       <Route
         path="/dashboard"
         element={
@@ -58,6 +96,16 @@ function AppContent() {
           </ProtectedRoute>
         }
       />
+      <Route
+        path="/passwords/audit"
+        element={
+          <ProtectedRoute>
+            <AppLayout>
+              <PasswordAudit />
+            </AppLayout>
+          </ProtectedRoute>
+        }
+      />
       <Route
         path="/notes"
         element={
@@ -108,6 +156,56 @@ function AppContent() {
           </ProtectedRoute>
         }
       />
+      <Route
+        path="/emergency-access"
+        element={
+          <ProtectedRoute>
+            <AppLayout>
+              <EmergencyAccess />
+            </AppLayout>
+          </ProtectedRoute>
+        }
+      />
+      <Route
+        path="/emergency-access/:id"
+        element={
+          <ProtectedRoute>
+            <AppLayout>
+              <EmergencyVault />
+            </AppLayout>
+          </ProtectedRoute>
+        }
+      />
+      <Route
+        path="/settings/security"
+        element={
+          <ProtectedRoute>
+            <AppLayout>
+              <SecuritySettings />
+            </AppLayout>
+          </ProtectedRoute>
+        }
+      />
+      <Route
+        path="/settings/sessions"
+        element={
+          <ProtectedRoute>
+            <AppLayout>
+              <Sessions />
+            </AppLayout>
+          </ProtectedRoute>
+        }
+      />
+      <Route
+        path="/settings/account"
+        element={
+          <ProtectedRoute>
+            <AppLayout>
+              <AccountSettings />
+            </AppLayout>
+          </ProtectedRoute>
+        }
+      />
       <Route path="*" element={<NotFound />} />
     </Routes>
   );
@@ -0,0 +1,42 @@
+import { signOut } from 'firebase/auth';
+import { auth } from '@/lib/firebase';
+import { useAuthStore } from '@/stores/authStore';
+import { MasterPasswordPrompt } from '@/components/auth/MasterPasswordPrompt';
+import { toast } from 'sonner';
+
+export function LockScreen() {
+  const { user } = useAuthStore();
+
+  const handleSignOut = async () => {
+    try {
+      await signOut(auth);
+    } catch (error) {
+      toast.error('Failed to sign out');
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-surface-sunken p-4">
+      <div className="w-full max-w-md animate-slide-up">
+        <div className="text-center mb-8">
+          <div className="inline-flex items-center justify-center w-16 h-16 rounded-2xl bg-primary mb-4">
+            <span className="text-primary-foreground font-bold text-2xl">PM</span>
+          </div>
+          <h1 className="text-2xl font-bold text-foreground">Vault locked</h1>
+          <p className="text-muted-foreground mt-1">{user?.email}</p>
+        </div>
+
+        <MasterPasswordPrompt />
+
+        <div className="mt-6 text-center">
+          <button
+            onClick={handleSignOut}
+            className="text-sm text-muted-foreground hover:text-foreground transition-colors"
+          >
+            Sign out instead
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
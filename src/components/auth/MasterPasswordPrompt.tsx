@@ -0,0 +1,120 @@
+import { useState, useEffect } from 'react';
+import { hasMasterPassword, createMasterPassword, unlockWithMasterPassword } from '@/lib/masterKey';
+import { useAuthStore } from '@/stores/authStore';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { toast } from 'sonner';
+import { Loader2, Lock, ShieldCheck } from 'lucide-react';
+
+const MIN_MASTER_PASSWORD_LENGTH = 10;
+
+export function MasterPasswordPrompt() {
+  const { user, unlock } = useAuthStore();
+  const [mode, setMode] = useState<'checking' | 'create' | 'unlock'>('checking');
+  const [masterPassword, setMasterPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!user) return;
+
+    hasMasterPassword(user.uid)
+      .then((exists) => setMode(exists ? 'unlock' : 'create'))
+      .catch(() => toast.error('Failed to load vault settings'));
+  }, [user]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user) return;
+
+    if (mode === 'create') {
+      if (masterPassword.length < MIN_MASTER_PASSWORD_LENGTH) {
+        toast.error(`Master password must be at least ${MIN_MASTER_PASSWORD_LENGTH} characters`);
+        return;
+      }
+      if (masterPassword !== confirmPassword) {
+        toast.error('Master passwords do not match');
+        return;
+      }
+    }
+
+    setLoading(true);
+    try {
+      const key = mode === 'create'
+        ? await createMasterPassword(user.uid, masterPassword)
+        : await unlockWithMasterPassword(user.uid, masterPassword);
+      unlock(key);
+      setMasterPassword('');
+      setConfirmPassword('');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to unlock vault');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (mode === 'checking') {
+    return (
+      <div className="flex items-center justify-center py-24">
+        <Loader2 className="w-8 h-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <Card variant="elevated" className="w-full">
+      <CardHeader className="text-center pb-4">
+        <div className="inline-flex items-center justify-center w-12 h-12 rounded-xl bg-primary/10 mx-auto mb-2">
+          {mode === 'create' ? (
+            <ShieldCheck className="w-6 h-6 text-primary" />
+          ) : (
+            <Lock className="w-6 h-6 text-primary" />
+          )}
+        </div>
+        <CardTitle>{mode === 'create' ? 'Set a master password' : 'Unlock your vault'}</CardTitle>
+        <CardDescription>
+          {mode === 'create'
+            ? 'Your entries are encrypted on this device with a key derived from this password. It is never sent to the server and cannot be recovered if you forget it.'
+            : 'Enter your master password to decrypt your entries'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <label className="text-sm font-medium text-foreground">Master password</label>
+            <Input
+              type="password"
+              value={masterPassword}
+              onChange={(e) => setMasterPassword(e.target.value)}
+              placeholder="••••••••"
+              autoFocus
+              required
+            />
+          </div>
+          {mode === 'create' && (
+            <div className="space-y-2">
+              <label className="text-sm font-medium text-foreground">Confirm master password</label>
+              <Input
+                type="password"
+                value={confirmPassword}
+                onChange={(e) => setConfirmPassword(e.target.value)}
+                placeholder="••••••••"
+                required
+              />
+            </div>
+          )}
+          <Button type="submit" className="w-full" disabled={loading}>
+            {loading ? (
+              <Loader2 className="w-4 h-4 animate-spin" />
+            ) : mode === 'create' ? (
+              'Create master password'
+            ) : (
+              'Unlock'
+            )}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,95 @@
+import { useState } from 'react';
+import { FirebaseError } from 'firebase/app';
+import { MultiFactorResolver, UserCredential } from 'firebase/auth';
+import { redeemRecoveryCode, resolveWithTotp } from '@/lib/mfa';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { toast } from 'sonner';
+import { Loader2, ShieldCheck } from 'lucide-react';
+
+interface MfaChallengeProps {
+  resolver: MultiFactorResolver;
+  onResolved: (credential: UserCredential) => void;
+  // A recovery code removes the authenticator instead of finishing the sign-in, so the first
+  // factor has to be repeated
+  onRecovered: () => void;
+  onCancel?: () => void;
+}
+
+export function MfaChallenge({ resolver, onResolved, onRecovered, onCancel }: MfaChallengeProps) {
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [code, setCode] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!code.trim()) return;
+
+    setLoading(true);
+    try {
+      if (useRecoveryCode) {
+        await redeemRecoveryCode(resolver, code);
+        toast.warning('Recovery code used and your authenticator app removed. Sign in again, then set up a new one.', {
+          duration: 10000,
+        });
+        onRecovered();
+        return;
+      }
+      onResolved(await resolveWithTotp(resolver, code));
+    } catch (error) {
+      const errorCode = error instanceof FirebaseError ? error.code : undefined;
+      const errorMessage = errorCode === 'auth/invalid-verification-code'
+        ? 'That code is not valid. Check your authenticator app and try again.'
+        : errorCode === 'auth/too-many-requests'
+        ? 'Too many attempts. Wait a moment before trying again.'
+        : error instanceof Error && !errorCode
+        ? error.message
+        : 'Verification failed. Please try again.';
+      toast.error(errorMessage);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="flex items-start gap-3 rounded-lg bg-primary/5 p-3">
+        <ShieldCheck className="w-5 h-5 text-primary shrink-0 mt-0.5" />
+        <p className="text-sm text-muted-foreground">
+          {useRecoveryCode
+            ? 'Enter one of the recovery codes you saved when setting up two-step verification.'
+            : 'Enter the 6-digit code from your authenticator app.'}
+        </p>
+      </div>
+      <Input
+        value={code}
+        onChange={(e) => setCode(e.target.value)}
+        placeholder={useRecoveryCode ? 'xxxxx-xxxxx' : '123456'}
+        inputMode={useRecoveryCode ? 'text' : 'numeric'}
+        autoComplete="one-time-code"
+        autoFocus
+        required
+      />
+      <Button type="submit" className="w-full" disabled={loading}>
+        {loading ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Verify'}
+      </Button>
+      <div className="flex justify-between text-sm">
+        <button
+          type="button"
+          onClick={() => {
+            setUseRecoveryCode(!useRecoveryCode);
+            setCode('');
+          }}
+          className="text-primary hover:underline"
+        >
+          {useRecoveryCode ? 'Use authenticator app' : 'Use a recovery code'}
+        </button>
+        {onCancel && (
+          <button type="button" onClick={onCancel} className="text-muted-foreground hover:text-foreground">
+            Cancel
+          </button>
+        )}
+      </div>
+    </form>
+  );
+}
@@ -1,6 +1,13 @@
 import { ReactNode, useEffect } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { Navigate, useLocation, useNavigate } from 'react-router-dom';
+import { needsEmailVerification } from '@/lib/authProviders';
+import { getTotpFactors } from '@/lib/mfa';
+import { buildAuthPath } from '@/lib/returnTo';
 import { useAuthStore } from '@/stores/authStore';
+import { useSettingsStore } from '@/stores/settingsStore';
+import { useAutoLock } from '@/hooks/use-auto-lock';
+import { LockScreen } from '@/components/auth/LockScreen';
+import { VerifyEmailScreen } from '@/components/auth/VerifyEmailScreen';
 import { Loader2 } from 'lucide-react';
 
 interface ProtectedRouteProps {
@@ -8,14 +15,18 @@ interface ProtectedRouteProps {
 }
 
 export function ProtectedRoute({ children }: ProtectedRouteProps) {
-  const { user, loading } = useAuthStore();
+  const { user, loading, locked } = useAuthStore();
+  const mfaReenrollRequired = useSettingsStore((state) => state.settings.mfaReenrollRequired);
   const navigate = useNavigate();
+  const location = useLocation();
+
+  useAutoLock();
 
   useEffect(() => {
     if (!loading && !user) {
-      navigate('/auth');
+      navigate(buildAuthPath(`${location.pathname}${location.search}${location.hash}`), { replace: true });
     }
-  }, [user, loading, navigate]);
+  }, [user, loading, navigate, location]);
 
   if (loading) {
     return (
@@ -32,5 +43,18 @@ export function ProtectedRoute({ children }: ProtectedRouteProps) {
     return null;
   }
 
+  if (needsEmailVerification(user)) {
+    return <VerifyEmailScreen />;
+  }
+
+  if (locked) {
+    return <LockScreen />;
+  }
+
+  // After a recovery code the account has to get a new authenticator before anything else
+  if (mfaReenrollRequired && getTotpFactors(user).length === 0 && location.pathname !== '/settings/security') {
+    return <Navigate to="/settings/security" replace />;
+  }
+
   return <>{children}</>;
 }
@@ -0,0 +1,152 @@
+import { useState } from 'react';
+import { FirebaseError } from 'firebase/app';
+import { EmailAuthProvider, MultiFactorResolver, reauthenticateWithCredential } from 'firebase/auth';
+import { getMfaResolver } from '@/lib/mfa';
+import {
+  SocialProviderId,
+  getLinkedProviders,
+  getSocialProviders,
+  reauthenticateWithSocial,
+  socialProviderNames,
+} from '@/lib/authProviders';
+import { useAuthStore } from '@/stores/authStore';
+import { MfaChallenge } from '@/components/auth/MfaChallenge';
+import { ProviderIcon } from '@/components/auth/SocialSignInButtons';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { toast } from 'sonner';
+import { Loader2 } from 'lucide-react';
+
+interface ReauthDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onReauthenticated: () => void;
+  description?: string;
+}
+
+// Firebase only allows sensitive account changes shortly after signing in
+export function ReauthDialog({ open, onOpenChange, onReauthenticated, description }: ReauthDialogProps) {
+  const { user } = useAuthStore();
+  const [password, setPassword] = useState('');
+  const [resolver, setResolver] = useState<MultiFactorResolver | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const close = (nextOpen: boolean) => {
+    if (!nextOpen) {
+      setPassword('');
+      setResolver(null);
+    }
+    onOpenChange(nextOpen);
+  };
+
+  // Report success before closing, since closing on its own means the user cancelled
+  const finish = () => {
+    onReauthenticated();
+    close(false);
+  };
+
+  const handleError = (error: unknown) => {
+    const mfaResolver = getMfaResolver(error);
+    if (mfaResolver) {
+      setResolver(mfaResolver);
+      return;
+    }
+    const code = error instanceof FirebaseError ? error.code : undefined;
+    if (code === 'auth/popup-closed-by-user' || code === 'auth/cancelled-popup-request') return;
+    toast.error(
+      code === 'auth/invalid-credential' || code === 'auth/wrong-password'
+        ? 'Incorrect password'
+        : code === 'auth/user-mismatch'
+        ? 'That account is not the one you are signed in with'
+        : code === 'auth/too-many-requests'
+        ? 'Too many attempts. Wait a moment before trying again.'
+        : 'Failed to confirm your identity'
+    );
+  };
+
+  const handleSocial = async (id: SocialProviderId) => {
+    if (!user) return;
+
+    setLoading(true);
+    try {
+      await reauthenticateWithSocial(user, id);
+      finish();
+    } catch (error) {
+      handleError(error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user?.email) return;
+
+    setLoading(true);
+    try {
+      await reauthenticateWithCredential(user, EmailAuthProvider.credential(user.email, password));
+      finish();
+    } catch (error) {
+      handleError(error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const hasPassword = !!user && getLinkedProviders(user).includes('password');
+  const socialProviders = user ? getSocialProviders(user) : [];
+
+  return (
+    <Dialog open={open} onOpenChange={close}>
+      <DialogContent className="sm:max-w-sm">
+        <DialogHeader>
+          <DialogTitle>Confirm it's you</DialogTitle>
+          <DialogDescription>
+            {description ?? (hasPassword ? 'Enter your account password to continue.' : 'Sign in again to continue.')}
+          </DialogDescription>
+        </DialogHeader>
+        {resolver ? (
+          <MfaChallenge
+            resolver={resolver}
+            onResolved={finish}
+            onRecovered={() => setResolver(null)}
+            onCancel={() => setResolver(null)}
+          />
+        ) : (
+          <div className="space-y-4">
+            {hasPassword && (
+              <form onSubmit={handleSubmit} className="space-y-4">
+                <Input
+                  type="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  placeholder="Account password"
+                  autoComplete="current-password"
+                  autoFocus
+                  required
+                />
+                <Button type="submit" className="w-full" disabled={loading}>
+                  {loading ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Continue'}
+                </Button>
+              </form>
+            )}
+            {socialProviders.map((id) => (
+              <Button
+                key={id}
+                type="button"
+                variant="outline"
+                className="w-full"
+                onClick={() => handleSocial(id)}
+                disabled={loading}
+              >
+                <ProviderIcon id={id} />
+                Continue with {socialProviderNames[id]}
+              </Button>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,15 @@
+import { useReauthStore } from '@/stores/reauthStore';
+import { ReauthDialog } from '@/components/auth/ReauthDialog';
+
+export function RecentAuthPrompt() {
+  const { open, description, settle } = useReauthStore();
+
+  return (
+    <ReauthDialog
+      open={open}
+      onOpenChange={(nextOpen) => !nextOpen && settle(false)}
+      onReauthenticated={() => settle(true)}
+      description={description ?? undefined}
+    />
+  );
+}
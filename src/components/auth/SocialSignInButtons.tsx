@@ -0,0 +1,39 @@
+import { SocialProviderId, socialProviderNames } from '@/lib/authProviders';
+import { Button } from '@/components/ui/button';
+
+export function ProviderIcon({ id, className = 'w-4 h-4' }: { id: SocialProviderId; className?: string }) {
+  if (id === 'github.com') {
+    return (
+      <svg viewBox="0 0 24 24" className={className} fill="currentColor" aria-hidden="true">
+        <path d="M12 .3a12 12 0 0 0-3.8 23.38c.6.12.83-.26.83-.57L9 21.07c-3.34.72-4.04-1.61-4.04-1.61-.55-1.39-1.34-1.76-1.34-1.76-1.08-.74.09-.73.09-.73 1.2.09 1.83 1.24 1.83 1.24 1.07 1.83 2.81 1.3 3.5 1 .1-.78.42-1.31.76-1.61-2.67-.3-5.47-1.33-5.47-5.93 0-1.31.47-2.38 1.24-3.22-.14-.3-.54-1.52.1-3.18 0 0 1-.32 3.3 1.23a11.5 11.5 0 0 1 6 0c2.28-1.55 3.29-1.23 3.29-1.23.64 1.66.24 2.88.12 3.18a4.65 4.65 0 0 1 1.23 3.22c0 4.61-2.8 5.62-5.48 5.92.42.36.81 1.1.81 2.22l-.01 3.29c0 .31.2.69.82.57A12 12 0 0 0 12 .3" />
+      </svg>
+    );
+  }
+
+  return (
+    <svg viewBox="0 0 24 24" className={className} aria-hidden="true">
+      <path fill="#4285F4" d="M23.5 12.27c0-.79-.07-1.54-.2-2.27H12v4.51h6.47a5.53 5.53 0 0 1-2.4 3.63v3h3.87c2.27-2.09 3.56-5.17 3.56-8.87z" />
+      <path fill="#34A853" d="M12 24c3.24 0 5.95-1.08 7.94-2.91l-3.87-3A7.2 7.2 0 0 1 12 19.3a7.15 7.15 0 0 1-6.72-4.94H1.28v3.09A12 12 0 0 0 12 24z" />
+      <path fill="#FBBC05" d="M5.28 14.36A7.2 7.2 0 0 1 4.9 12c0-.82.14-1.62.38-2.36V6.55h-4A12 12 0 0 0 0 12c0 1.94.46 3.77 1.28 5.45l4-3.09z" />
+      <path fill="#EA4335" d="M12 4.77c1.76 0 3.34.6 4.59 1.8l3.43-3.43A11.97 11.97 0 0 0 1.28 6.55l4 3.09A7.15 7.15 0 0 1 12 4.77z" />
+    </svg>
+  );
+}
+
+interface SocialSignInButtonsProps {
+  onSelect: (id: SocialProviderId) => void;
+  disabled?: boolean;
+}
+
+export function SocialSignInButtons({ onSelect, disabled }: SocialSignInButtonsProps) {
+  return (
+    <div className="grid grid-cols-2 gap-3">
+      {(Object.keys(socialProviderNames) as SocialProviderId[]).map((id) => (
+        <Button key={id} type="button" variant="outline" onClick={() => onSelect(id)} disabled={disabled}>
+          <ProviderIcon id={id} />
+          {socialProviderNames[id]}
+        </Button>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,114 @@
+import { useCallback, useEffect, useState } from 'react';
+import { FirebaseError } from 'firebase/app';
+import { sendEmailVerification, signOut } from 'firebase/auth';
+import { auth } from '@/lib/firebase';
+import { endSession } from '@/lib/sessions';
+import { useAuthStore } from '@/stores/authStore';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { toast } from 'sonner';
+import { Loader2, MailCheck } from 'lucide-react';
+
+const RESEND_COOLDOWN_SECONDS = 60;
+
+export function VerifyEmailScreen() {
+  const { user, sessionId, setUser } = useAuthStore();
+  const [cooldown, setCooldown] = useState(0);
+  const [checking, setChecking] = useState(false);
+
+  useEffect(() => {
+    if (cooldown <= 0) return;
+    const timer = window.setTimeout(() => setCooldown(cooldown - 1), 1000);
+    return () => window.clearTimeout(timer);
+  }, [cooldown]);
+
+  // The user object only learns about the verification after a reload
+  const checkVerified = useCallback(async (quiet = false) => {
+    if (!auth.currentUser) return;
+
+    setChecking(true);
+    try {
+      await auth.currentUser.reload();
+      if (auth.currentUser.emailVerified) {
+        await auth.currentUser.getIdToken(true);
+        setUser(auth.currentUser);
+        toast.success('Email verified');
+      } else if (!quiet) {
+        toast.error('Your email is not verified yet');
+      }
+    } catch (error) {
+      if (!quiet) toast.error('Failed to check verification');
+    } finally {
+      setChecking(false);
+    }
+  }, [setUser]);
+
+  useEffect(() => {
+    const onFocus = () => checkVerified(true);
+    window.addEventListener('focus', onFocus);
+    return () => window.removeEventListener('focus', onFocus);
+  }, [checkVerified]);
+
+  const handleResend = async () => {
+    if (!user) return;
+
+    try {
+      await sendEmailVerification(user);
+      setCooldown(RESEND_COOLDOWN_SECONDS);
+      toast.success(`Verification email sent to ${user.email}`);
+    } catch (error) {
+      toast.error(
+        error instanceof FirebaseError && error.code === 'auth/too-many-requests'
+          ? 'Too many emails sent. Wait a few minutes before trying again.'
+          : 'Failed to send verification email'
+      );
+    }
+  };
+
+  const handleSignOut = async () => {
+    try {
+      if (sessionId) {
+        await endSession(sessionId).catch(() => undefined);
+      }
+      await signOut(auth);
+    } catch (error) {
+      toast.error('Failed to sign out');
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-surface-sunken p-4">
+      <div className="w-full max-w-md animate-slide-up">
+        <Card variant="elevated">
+          <CardHeader className="text-center pb-4">
+            <div className="w-12 h-12 rounded-full bg-primary/10 flex items-center justify-center mx-auto mb-2">
+              <MailCheck className="w-6 h-6 text-primary" />
+            </div>
+            <CardTitle>Check your inbox</CardTitle>
+            <CardDescription>
+              We sent a verification link to <span className="font-medium text-foreground">{user?.email}</span>.
+              Open it to finish setting up your account.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <Button className="w-full" onClick={() => checkVerified()} disabled={checking}>
+              {checking ? <Loader2 className="w-4 h-4 animate-spin" /> : "I've verified my email"}
+            </Button>
+            <Button variant="outline" className="w-full" onClick={handleResend} disabled={cooldown > 0}>
+              {cooldown > 0 ? `Resend email in ${cooldown}s` : 'Resend email'}
+            </Button>
+          </CardContent>
+        </Card>
+
+        <div className="mt-6 text-center">
+          <button
+            onClick={handleSignOut}
+            className="text-sm text-muted-foreground hover:text-foreground transition-colors"
+          >
+            Sign out
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
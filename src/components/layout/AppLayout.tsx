@@ -2,9 +2,14 @@ import { ReactNode, useState } from 'react';
 import { NavLink, useLocation, useNavigate } from 'react-router-dom';
 import { signOut } from 'firebase/auth';
 import { auth } from '@/lib/firebase';
+import { endSession } from '@/lib/sessions';
 import { useAuthStore } from '@/stores/authStore';
+import { useSettingsStore } from '@/stores/settingsStore';
 import { cn } from '@/lib/utils';
+import { RecentAuthPrompt } from '@/components/auth/RecentAuthPrompt';
 import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
 import {
   LayoutDashboard,
   Key,
@@ -13,7 +18,12 @@ import {
   FolderLock,
   Wallet,
   TrendingUp,
+  LifeBuoy,
+  ShieldCheck,
+  UserCog,
+  MonitorSmartphone,
   LogOut,
+  Lock,
   Menu,
   X,
   ChevronRight,
@@ -32,16 +42,41 @@ const navItems = [
   { path: '/vault', label: 'Digital Vault', icon: FolderLock },
   { path: '/expenses', label: 'Expenses', icon: Wallet },
   { path: '/income', label: 'Income', icon: TrendingUp },
+  { path: '/emergency-access', label: 'Emergency Access', icon: LifeBuoy },
+  { path: '/settings/security', label: 'Security', icon: ShieldCheck },
+  { path: '/settings/sessions', label: 'Sessions', icon: MonitorSmartphone },
+  { path: '/settings/account', label: 'Account', icon: UserCog },
+];
+
+const autoLockOptions = [
+  { value: 1, label: '1 minute' },
+  { value: 5, label: '5 minutes' },
+  { value: 15, label: '15 minutes' },
+  { value: 30, label: '30 minutes' },
+  { value: 60, label: '1 hour' },
+  { value: 0, label: 'Never' },
+];
+
+const clipboardClearOptions = [
+  { value: 15, label: '15 seconds' },
+  { value: 30, label: '30 seconds' },
+  { value: 60, label: '1 minute' },
+  { value: 120, label: '2 minutes' },
+  { value: 0, label: 'Never' },
 ];
 
 export function AppLayout({ children }: AppLayoutProps) {
   const [sidebarOpen, setSidebarOpen] = useState(false);
-  const { user } = useAuthStore();
+  const { user, lock, sessionId } = useAuthStore();
+  const { settings, updateSettings } = useSettingsStore();
   const location = useLocation();
   const navigate = useNavigate();
 
   const handleSignOut = async () => {
     try {
+      if (sessionId) {
+        await endSession(sessionId).catch(() => undefined);
+      }
       await signOut(auth);
       toast.success('Signed out successfully');
       navigate('/auth');
@@ -50,6 +85,30 @@ export function AppLayout({ children }: AppLayoutProps) {
     }
   };
 
+  const handleAutoLockChange = async (value: string) => {
+    try {
+      await updateSettings({ autoLockMinutes: Number(value) });
+    } catch (error) {
+      toast.error('Failed to save auto-lock setting');
+    }
+  };
+
+  const handleLockOnHiddenChange = async (checked: boolean) => {
+    try {
+      await updateSettings({ lockOnHidden: checked });
+    } catch (error) {
+      toast.error('Failed to save auto-lock setting');
+    }
+  };
+
+  const handleClipboardClearChange = async (value: string) => {
+    try {
+      await updateSettings({ clipboardClearSeconds: Number(value) });
+    } catch (error) {
+      toast.error('Failed to save clipboard setting');
+    }
+  };
+
   const currentPage = navItems.find(item => location.pathname.startsWith(item.path));
 
   return (
@@ -142,6 +201,40 @@ export function AppLayout({ children }: AppLayoutProps) {
                 <LogOut className="w-4 h-4" />
               </Button>
             </div>
+            <div className="flex items-center gap-2 mt-3">
+              <Select value={String(settings.autoLockMinutes)} onValueChange={handleAutoLockChange}>
+                <SelectTrigger className="h-9 flex-1 text-xs" title="Auto-lock after inactivity">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {autoLockOptions.map((option) => (
+                    <SelectItem key={option.value} value={String(option.value)}>
+                      Auto-lock: {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button variant="outline" size="sm" onClick={lock}>
+                <Lock className="w-4 h-4" />
+                Lock
+              </Button>
+            </div>
+            <label className="flex items-center justify-between gap-2 mt-2 px-1 text-xs text-muted-foreground">
+              Lock when the tab is hidden
+              <Switch checked={settings.lockOnHidden} onCheckedChange={handleLockOnHiddenChange} />
+            </label>
+            <Select value={String(settings.clipboardClearSeconds)} onValueChange={handleClipboardClearChange}>
+              <SelectTrigger className="h-9 mt-2 text-xs" title="Clear copied secrets from the clipboard">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {clipboardClearOptions.map((option) => (
+                  <SelectItem key={option.value} value={String(option.value)}>
+                    Clear clipboard: {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
           </div>
         </div>
       </aside>
@@ -174,6 +267,8 @@ export function AppLayout({ children }: AppLayoutProps) {
           </div>
         </main>
       </div>
+
+      <RecentAuthPrompt />
     </div>
   );
 }
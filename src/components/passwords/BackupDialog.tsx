@@ -0,0 +1,280 @@
+import { useRef, useState } from 'react';
+import { format } from 'date-fns';
+import { Password, addPasswordsInBatches, deletePasswordsInBatches } from '@/lib/passwords';
+import { createCsvExport, createEncryptedBackup, readEncryptedBackup } from '@/lib/passwordBackup';
+import { isDuplicate } from '@/lib/passwordImport';
+import { downloadFile } from '@/lib/utils';
+import { requireRecentAuth } from '@/lib/recentAuth';
+import { useAuthStore } from '@/stores/authStore';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { toast } from 'sonner';
+import { Download, FileWarning, Loader2, Upload } from 'lucide-react';
+
+interface BackupDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  passwords: Password[];
+}
+
+const MIN_PASSPHRASE_LENGTH = 10;
+
+export function BackupDialog({ open, onOpenChange, passwords }: BackupDialogProps) {
+  const { user, masterKey } = useAuthStore();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [busy, setBusy] = useState(false);
+  const [confirmCsv, setConfirmCsv] = useState(false);
+  const [confirmReplace, setConfirmReplace] = useState(false);
+
+  // Export state
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmPassphrase, setConfirmPassphrase] = useState('');
+
+  // Restore state
+  const [restoreFile, setRestoreFile] = useState<File | null>(null);
+  const [restorePassphrase, setRestorePassphrase] = useState('');
+  const [restoreMode, setRestoreMode] = useState<'merge' | 'replace'>('merge');
+
+  const reset = () => {
+    setPassphrase('');
+    setConfirmPassphrase('');
+    setRestoreFile(null);
+    setRestorePassphrase('');
+    setRestoreMode('merge');
+    if (fileInputRef.current) {
+      fileInputRef.current.value = '';
+    }
+  };
+
+  const stamp = () => format(new Date(), 'yyyy-MM-dd');
+
+  const handleExport = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      toast.error(`Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`);
+      return;
+    }
+    if (passphrase !== confirmPassphrase) {
+      toast.error('Passphrases do not match');
+      return;
+    }
+
+    if (!(await requireRecentAuth('Confirm it is you before exporting your passwords.'))) return;
+
+    setBusy(true);
+    try {
+      const backup = await createEncryptedBackup(passwords, passphrase);
+      downloadFile(`passwords-backup-${stamp()}.json`, backup, 'application/json');
+      toast.success(`Exported ${passwords.length} passwords`);
+      reset();
+    } catch (error) {
+      toast.error('Failed to create backup');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleCsvExport = async () => {
+    setConfirmCsv(false);
+    if (!(await requireRecentAuth('Confirm it is you before exporting your passwords.'))) return;
+
+    downloadFile(`passwords-${stamp()}.csv`, createCsvExport(passwords), 'text/csv');
+    toast.success(`Exported ${passwords.length} passwords as plaintext CSV`);
+  };
+
+  const handleRestore = async () => {
+    if (!user || !masterKey || !restoreFile) return;
+    if (restoreMode === 'replace' && !(await requireRecentAuth('Confirm it is you before replacing your passwords.'))) {
+      setConfirmReplace(false);
+      return;
+    }
+
+    setBusy(true);
+    try {
+      const entries = await readEncryptedBackup(await restoreFile.text(), restorePassphrase);
+      const toRestore = restoreMode === 'replace'
+        ? entries
+        : entries.filter((entry) => !passwords.some((pw) => isDuplicate(entry, pw)));
+
+      await addPasswordsInBatches(
+        user.uid,
+        masterKey,
+        toRestore.map(({ createdAt, updatedAt, lastChangedAt, ...entry }) => ({
+          ...entry,
+          createdAt: createdAt ? new Date(createdAt) : undefined,
+          updatedAt: updatedAt ? new Date(updatedAt) : undefined,
+          lastChangedAt: lastChangedAt ? new Date(lastChangedAt) : undefined,
+        }))
+      );
+      // Existing entries are only removed once the backup has been written in full
+      if (restoreMode === 'replace') {
+        await deletePasswordsInBatches(passwords.map((pw) => pw.id));
+      }
+
+      const skipped = entries.length - toRestore.length;
+      toast.success(`Restored ${toRestore.length} passwords${skipped > 0 ? `, ${skipped} duplicates skipped` : ''}`);
+      reset();
+      onOpenChange(false);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to restore backup');
+    } finally {
+      setBusy(false);
+      setConfirmReplace(false);
+    }
+  };
+
+  return (
+    <>
+      <Dialog open={open} onOpenChange={(next) => { if (!busy) { onOpenChange(next); if (!next) reset(); } }}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Backup &amp; restore</DialogTitle>
+            <DialogDescription>
+              Keep an offline copy of your passwords in case you lose access to your account.
+            </DialogDescription>
+          </DialogHeader>
+          <Tabs defaultValue="export" className="mt-2">
+            <TabsList className="w-full">
+              <TabsTrigger value="export" className="flex-1">Export</TabsTrigger>
+              <TabsTrigger value="restore" className="flex-1">Restore</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="export">
+              <form onSubmit={handleExport} className="space-y-4 mt-4">
+                <div>
+                  <label className="text-sm font-medium text-foreground">Backup passphrase</label>
+                  <Input
+                    type="password"
+                    value={passphrase}
+                    onChange={(e) => setPassphrase(e.target.value)}
+                    placeholder="••••••••"
+                    required
+                  />
+                </div>
+                <div>
+                  <label className="text-sm font-medium text-foreground">Confirm passphrase</label>
+                  <Input
+                    type="password"
+                    value={confirmPassphrase}
+                    onChange={(e) => setConfirmPassphrase(e.target.value)}
+                    placeholder="••••••••"
+                    required
+                  />
+                </div>
+                <Button type="submit" className="w-full" disabled={busy || passwords.length === 0}>
+                  {busy ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+                  Download encrypted backup
+                </Button>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  className="w-full text-muted-foreground"
+                  onClick={() => setConfirmCsv(true)}
+                  disabled={passwords.length === 0}
+                >
+                  <FileWarning className="w-4 h-4" />
+                  Export unencrypted CSV
+                </Button>
+              </form>
+            </TabsContent>
+
+            <TabsContent value="restore">
+              <div className="space-y-4 mt-4">
+                <div>
+                  <label className="text-sm font-medium text-foreground">Backup file</label>
+                  <input
+                    ref={fileInputRef}
+                    type="file"
+                    accept=".json"
+                    className="hidden"
+                    onChange={(e) => setRestoreFile(e.target.files?.[0] || null)}
+                  />
+                  <Button
+                    type="button"
+                    variant="outline"
+                    className="w-full justify-start"
+                    onClick={() => fileInputRef.current?.click()}
+                  >
+                    <Upload className="w-4 h-4" />
+                    <span className="truncate">{restoreFile ? restoreFile.name : 'Choose backup file'}</span>
+                  </Button>
+                </div>
+                <div>
+                  <label className="text-sm font-medium text-foreground">Backup passphrase</label>
+                  <Input
+                    type="password"
+                    value={restorePassphrase}
+                    onChange={(e) => setRestorePassphrase(e.target.value)}
+                    placeholder="••••••••"
+                  />
+                </div>
+                <RadioGroup value={restoreMode} onValueChange={(v: 'merge' | 'replace') => setRestoreMode(v)}>
+                  <label className="flex items-center gap-2 text-sm text-foreground">
+                    <RadioGroupItem value="merge" />
+                    Merge, skipping entries I already have
+                  </label>
+                  <label className="flex items-center gap-2 text-sm text-foreground">
+                    <RadioGroupItem value="replace" />
+                    Replace all current passwords
+                  </label>
+                </RadioGroup>
+                <Button
+                  className="w-full"
+                  disabled={busy || !restoreFile || !restorePassphrase}
+                  onClick={() => (restoreMode === 'replace' ? setConfirmReplace(true) : handleRestore())}
+                >
+                  {busy && <Loader2 className="w-4 h-4 animate-spin" />}
+                  Restore backup
+                </Button>
+              </div>
+            </TabsContent>
+          </Tabs>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={confirmCsv} onOpenChange={setConfirmCsv}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Export passwords in plaintext?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The CSV file is not encrypted. Anyone who can read it will see every password. Delete it as soon
+              as you no longer need it.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleCsvExport}>Export CSV</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <AlertDialog open={confirmReplace} onOpenChange={setConfirmReplace}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Replace all passwords?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Your {passwords.length} current passwords will be deleted and replaced with the contents of the backup.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleRestore}>Replace</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
@@ -0,0 +1,102 @@
+import { CustomField, CustomFieldType, customFieldTypeLabels } from '@/lib/passwords';
+import { createCustomField } from '@/lib/passwordTemplates';
+import { requireRecentAuth } from '@/lib/recentAuth';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Plus, X } from 'lucide-react';
+
+interface CustomFieldsEditorProps {
+  fields: CustomField[];
+  onChange: (fields: CustomField[]) => void;
+}
+
+const inputTypes: Record<CustomFieldType, string> = {
+  text: 'text',
+  hidden: 'password',
+  url: 'url',
+  date: 'date',
+  totp: 'text',
+};
+
+const placeholders: Record<CustomFieldType, string> = {
+  text: 'Value',
+  hidden: '••••••••',
+  url: 'https://example.com',
+  date: '',
+  totp: 'otpauth://totp/... or base32 secret',
+};
+
+export function CustomFieldsEditor({ fields, onChange }: CustomFieldsEditorProps) {
+  const updateField = (id: string, changes: Partial<CustomField>) => {
+    onChange(fields.map((field) => (field.id === id ? { ...field, ...changes } : field)));
+  };
+
+  // Switching a hidden field to any other type shows its value in the clear
+  const changeType = async (field: CustomField, type: CustomFieldType) => {
+    if (
+      field.type === 'hidden' &&
+      type !== 'hidden' &&
+      field.value &&
+      !(await requireRecentAuth('Confirm it is you before revealing this field.'))
+    ) {
+      return;
+    }
+    updateField(field.id, { type });
+  };
+
+  return (
+    <div className="space-y-3">
+      {fields.map((field) => (
+        <div key={field.id} className="space-y-1.5">
+          <div className="flex gap-2">
+            <Input
+              value={field.label}
+              onChange={(e) => updateField(field.id, { label: e.target.value })}
+              placeholder="Field name"
+              className="h-8 text-sm"
+            />
+            <Select
+              value={field.type}
+              onValueChange={(type: CustomFieldType) => changeType(field, type)}
+            >
+              <SelectTrigger className="w-40 h-8 text-sm">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(customFieldTypeLabels) as CustomFieldType[]).map((type) => (
+                  <SelectItem key={type} value={type}>{customFieldTypeLabels[type]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon-sm"
+              onClick={() => onChange(fields.filter((other) => other.id !== field.id))}
+              title="Remove field"
+            >
+              <X className="w-4 h-4" />
+            </Button>
+          </div>
+          <Input
+            type={inputTypes[field.type]}
+            value={field.value}
+            onChange={(e) => updateField(field.id, { value: e.target.value })}
+            placeholder={placeholders[field.type]}
+            autoComplete="off"
+          />
+        </div>
+      ))}
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        onClick={() => onChange([...fields, createCustomField()])}
+      >
+        <Plus className="w-4 h-4" />
+        Add field
+      </Button>
+    </div>
+  );
+}
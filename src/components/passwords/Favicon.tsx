@@ -0,0 +1,30 @@
+import { useState } from 'react';
+import { getFaviconUrl } from '@/lib/domains';
+import { useSettingsStore } from '@/stores/settingsStore';
+import { Key } from 'lucide-react';
+
+interface FaviconProps {
+  website?: string;
+}
+
+export function Favicon({ website }: FaviconProps) {
+  const showFavicons = useSettingsStore((state) => state.settings.showFavicons);
+  const [failedUrl, setFailedUrl] = useState<string | null>(null);
+  const url = showFavicons ? getFaviconUrl(website) : null;
+
+  return (
+    <div className="w-12 h-12 rounded-xl bg-primary/10 flex items-center justify-center shrink-0 overflow-hidden">
+      {url && url !== failedUrl ? (
+        <img
+          src={url}
+          alt=""
+          className="w-6 h-6 object-contain"
+          referrerPolicy="no-referrer"
+          onError={() => setFailedUrl(url)}
+        />
+      ) : (
+        <Key className="w-6 h-6 text-primary" />
+      )}
+    </div>
+  );
+}
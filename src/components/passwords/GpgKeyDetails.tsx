@@ -0,0 +1,84 @@
+import { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { GpgKeyInfo, parseGpgKey } from '@/lib/gpgKeys';
+import { copySecret } from '@/lib/clipboard';
+import { Button } from '@/components/ui/button';
+import { Copy, Lock } from 'lucide-react';
+
+interface GpgKeyDetailsProps {
+  privateKey: string;
+  source?: string;
+  // One-line summary for list rows
+  compact?: boolean;
+}
+
+export function GpgKeyDetails({ privateKey, source, compact }: GpgKeyDetailsProps) {
+  // undefined while parsing, null when the text is not a GPG key
+  const [info, setInfo] = useState<GpgKeyInfo | null | undefined>(undefined);
+
+  useEffect(() => {
+    let cancelled = false;
+    parseGpgKey(privateKey).then((result) => {
+      if (!cancelled) setInfo(result);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [privateKey]);
+
+  if (info === undefined) return null;
+
+  if (!info) {
+    return <p className={compact ? 'text-xs text-muted-foreground' : 'text-sm text-muted-foreground'}>Not a recognised GPG key</p>;
+  }
+
+  if (compact) {
+    return (
+      <p className="flex items-center gap-1 text-xs text-muted-foreground font-mono truncate">
+        {info.encrypted && <Lock className="w-3 h-3 shrink-0" />}
+        {[info.type, info.keyId].join(' · ')}
+      </p>
+    );
+  }
+
+  return (
+    <dl className="grid grid-cols-[max-content_1fr] gap-x-4 gap-y-2 text-sm">
+      <dt className="text-muted-foreground">Key type</dt>
+      <dd className="flex items-center gap-2 text-foreground">
+        {info.type}
+        {info.encrypted && (
+          <span className="inline-flex items-center gap-1 text-xs px-2 py-0.5 rounded-full bg-muted text-muted-foreground">
+            <Lock className="w-3 h-3" />
+            Passphrase protected
+          </span>
+        )}
+      </dd>
+      {info.userIds.length > 0 && (
+        <>
+          <dt className="text-muted-foreground">User IDs</dt>
+          <dd className="text-foreground">
+            {info.userIds.map((userId) => (
+              <p key={userId} className="truncate">{userId}</p>
+            ))}
+          </dd>
+        </>
+      )}
+      <dt className="text-muted-foreground">Created</dt>
+      <dd className="text-foreground">{format(info.createdAt, 'PP')}</dd>
+      <dt className="text-muted-foreground">Fingerprint</dt>
+      <dd className="flex items-start gap-1">
+        <code className="flex-1 min-w-0 text-xs bg-muted px-2 py-1 rounded font-mono break-all">{info.fingerprint}</code>
+        <Button
+          type="button"
+          variant="ghost"
+          size="icon-sm"
+          onClick={() => copySecret(info.fingerprint.replace(/ /g, ''), { label: 'Fingerprint', source })}
+        >
+          <Copy className="w-4 h-4" />
+        </Button>
+      </dd>
+      <dt className="text-muted-foreground">Key ID</dt>
+      <dd className="font-mono text-xs text-foreground">{info.keyId}</dd>
+    </dl>
+  );
+}
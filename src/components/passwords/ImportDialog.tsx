@@ -0,0 +1,219 @@
+import { useMemo, useRef, useState } from 'react';
+import { Password, addPasswordsInBatches, categories } from '@/lib/passwords';
+import { ImportResult, importFormatLabels, isDuplicate, parseImportFile, suggestCategory } from '@/lib/passwordImport';
+import { useAuthStore } from '@/stores/authStore';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { toast } from 'sonner';
+import { Loader2, Upload } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface ImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  existing: Password[];
+}
+
+export function ImportDialog({ open, onOpenChange, existing }: ImportDialogProps) {
+  const { user, masterKey } = useAuthStore();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [result, setResult] = useState<ImportResult | null>(null);
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const [folderCategories, setFolderCategories] = useState<Record<string, string>>({});
+  const [parsing, setParsing] = useState(false);
+  const [progress, setProgress] = useState<number | null>(null);
+
+  const duplicates = useMemo(() => {
+    if (!result) return new Set<number>();
+    return new Set(
+      result.entries
+        .map((entry, index) => (existing.some((pw) => isDuplicate(entry, pw)) ? index : -1))
+        .filter((index) => index !== -1)
+    );
+  }, [result, existing]);
+
+  const folders = useMemo(
+    () => [...new Set(result?.entries.map((entry) => entry.folder) ?? [])].sort(),
+    [result]
+  );
+
+  const reset = () => {
+    setResult(null);
+    setSelected(new Set());
+    setFolderCategories({});
+    setProgress(null);
+    if (fileInputRef.current) {
+      fileInputRef.current.value = '';
+    }
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+
+    setParsing(true);
+    try {
+      const parsed = await parseImportFile(file);
+      if (parsed.entries.length === 0) {
+        toast.error('No logins found in this file');
+        return;
+      }
+
+      const parsedFolders = [...new Set(parsed.entries.map((entry) => entry.folder))];
+      setFolderCategories(Object.fromEntries(parsedFolders.map((folder) => [folder, suggestCategory(folder)])));
+      setSelected(new Set(
+        parsed.entries
+          .map((entry, index) => (existing.some((pw) => isDuplicate(entry, pw)) ? -1 : index))
+          .filter((index) => index !== -1)
+      ));
+      setResult(parsed);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to read import file');
+    } finally {
+      setParsing(false);
+    }
+  };
+
+  const toggleEntry = (index: number) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(index)) {
+        next.delete(index);
+      } else {
+        next.add(index);
+      }
+      return next;
+    });
+  };
+
+  const handleImport = async () => {
+    if (!user || !masterKey || !result) return;
+
+    const entries = result.entries
+      .filter((_, index) => selected.has(index))
+      .map(({ folder, ...entry }) => ({ ...entry, category: folderCategories[folder] ?? 'Other' }));
+
+    setProgress(0);
+    try {
+      await addPasswordsInBatches(user.uid, masterKey, entries, setProgress);
+      toast.success(`Imported ${entries.length} passwords`);
+      reset();
+      onOpenChange(false);
+    } catch (error) {
+      toast.error('Import failed. Entries written before the error were kept.');
+      setProgress(null);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => { if (progress === null) { onOpenChange(next); if (!next) reset(); } }}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Import passwords</DialogTitle>
+          <DialogDescription>
+            Bitwarden JSON, 1Password 1PUX or CSV, LastPass CSV, KeePass XML, Chrome or Firefox CSV.
+            Files are read on this device only.
+          </DialogDescription>
+        </DialogHeader>
+
+        {!result ? (
+          <div
+            className="mt-2 border-2 border-dashed border-border rounded-lg p-10 text-center cursor-pointer transition-colors hover:border-primary/50"
+            onClick={() => fileInputRef.current?.click()}
+          >
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".json,.csv,.xml,.1pux"
+              className="hidden"
+              onChange={(e) => handleFile(e.target.files?.[0])}
+            />
+            {parsing ? (
+              <Loader2 className="w-8 h-8 mx-auto animate-spin text-primary" />
+            ) : (
+              <>
+                <Upload className="w-8 h-8 mx-auto text-muted-foreground mb-2" />
+                <p className="text-sm text-foreground">Click to choose an export file</p>
+              </>
+            )}
+          </div>
+        ) : (
+          <div className="space-y-4 mt-2">
+            <p className="text-sm text-muted-foreground">
+              {importFormatLabels[result.format]}: {result.entries.length} logins found
+              {result.skipped > 0 && `, ${result.skipped} other items skipped`}
+              {duplicates.size > 0 && `, ${duplicates.size} already in your vault`}
+            </p>
+
+            {/* Folder mapping */}
+            <div className="space-y-2">
+              <p className="text-sm font-medium text-foreground">Folders</p>
+              {folders.map((folder) => (
+                <div key={folder} className="flex items-center gap-3">
+                  <span className="flex-1 text-sm text-muted-foreground truncate">{folder || 'No folder'}</span>
+                  <Select
+                    value={folderCategories[folder]}
+                    onValueChange={(cat) => setFolderCategories((prev) => ({ ...prev, [folder]: cat }))}
+                  >
+                    <SelectTrigger className="w-44 h-9">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {categories.map((cat) => (
+                        <SelectItem key={cat} value={cat}>{cat}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+
+            {/* Preview */}
+            <ScrollArea className="h-64 rounded-lg border border-border">
+              <div className="divide-y divide-border">
+                {result.entries.map((entry, index) => (
+                  <label
+                    key={index}
+                    className={cn(
+                      "flex items-center gap-3 px-3 py-2 cursor-pointer",
+                      !selected.has(index) && "opacity-60"
+                    )}
+                  >
+                    <Checkbox checked={selected.has(index)} onCheckedChange={() => toggleEntry(index)} />
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm font-medium text-foreground truncate">{entry.title}</p>
+                      <p className="text-xs text-muted-foreground truncate">
+                        {entry.username}{entry.website && ` · ${entry.website}`}
+                      </p>
+                    </div>
+                    {duplicates.has(index) && (
+                      <span className="text-xs px-2 py-0.5 rounded-full bg-amber-500/10 text-amber-600">Duplicate</span>
+                    )}
+                  </label>
+                ))}
+              </div>
+            </ScrollArea>
+
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={reset} disabled={progress !== null}>
+                Choose another file
+              </Button>
+              <Button className="flex-1" onClick={handleImport} disabled={selected.size === 0 || progress !== null}>
+                {progress !== null ? (
+                  <>
+                    <Loader2 className="w-4 h-4 animate-spin" />
+                    Importing {progress} / {selected.size}
+                  </>
+                ) : (
+                  `Import ${selected.size} passwords`
+                )}
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
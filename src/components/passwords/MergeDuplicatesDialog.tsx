@@ -0,0 +1,83 @@
+import { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { Password, mergePasswordEntries } from '@/lib/passwords';
+import { getRegistrableDomain } from '@/lib/domains';
+import { useAuthStore } from '@/stores/authStore';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { StrengthBadge } from '@/components/passwords/StrengthMeter';
+import { toast } from 'sonner';
+import { Loader2 } from 'lucide-react';
+
+interface MergeDuplicatesDialogProps {
+  group: Password[] | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function MergeDuplicatesDialog({ group, onOpenChange }: MergeDuplicatesDialogProps) {
+  const { masterKey } = useAuthStore();
+  const [keepId, setKeepId] = useState('');
+  const [merging, setMerging] = useState(false);
+
+  useEffect(() => {
+    // Default to the most recently changed entry, which is most likely the current password
+    const latest = group
+      ?.slice()
+      .sort((a, b) => ((b.updatedAt ?? b.createdAt)?.getTime() || 0) - ((a.updatedAt ?? a.createdAt)?.getTime() || 0))[0];
+    setKeepId(latest?.id ?? '');
+  }, [group]);
+
+  const handleMerge = async () => {
+    const keep = group?.find((pw) => pw.id === keepId);
+    if (!group || !keep || !masterKey) return;
+
+    setMerging(true);
+    try {
+      await mergePasswordEntries(masterKey, keep, group.filter((pw) => pw.id !== keep.id));
+      toast.success(`Merged ${group.length} entries into ${keep.title}`);
+      onOpenChange(false);
+    } catch (error) {
+      toast.error('Failed to merge entries');
+    } finally {
+      setMerging(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!group} onOpenChange={(open) => !merging && onOpenChange(open)}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Merge duplicate logins</DialogTitle>
+          <DialogDescription>
+            {group && `${group.length} entries use ${group[0].username || 'no username'} on ${getRegistrableDomain(group[0].website)}. `}
+            Choose the entry to keep. Passwords from the others are moved into its history.
+          </DialogDescription>
+        </DialogHeader>
+        <RadioGroup value={keepId} onValueChange={setKeepId} className="mt-2">
+          {group?.map((pw) => (
+            <label
+              key={pw.id}
+              className="flex items-center gap-3 rounded-lg border border-border p-3 cursor-pointer"
+            >
+              <RadioGroupItem value={pw.id} />
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-medium text-foreground truncate">{pw.title}</p>
+                <p className="text-xs text-muted-foreground truncate">
+                  {pw.website}
+                  {' · '}
+                  {format(pw.updatedAt ?? pw.createdAt ?? new Date(), 'PP')}
+                </p>
+              </div>
+              <StrengthBadge score={pw.strength} />
+            </label>
+          ))}
+        </RadioGroup>
+        <Button className="w-full mt-2" onClick={handleMerge} disabled={!keepId || merging}>
+          {merging && <Loader2 className="w-4 h-4 animate-spin" />}
+          Merge entries
+        </Button>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,261 @@
+import { useEffect, useState } from 'react';
+import { collection, onSnapshot, orderBy, query } from 'firebase/firestore';
+import { format, isValid, parseISO } from 'date-fns';
+import { db } from '@/lib/firebase';
+import {
+  CustomField,
+  Password,
+  PasswordHistoryEntry,
+  decryptHistoryDoc,
+  getSecretLabel,
+  isMultilineKind,
+  isTokenExpired,
+  secretKindLabels,
+  toPasswordSecret,
+  updatePasswordEntry,
+} from '@/lib/passwords';
+import { copySecret } from '@/lib/clipboard';
+import { getOpenableUrl } from '@/lib/domains';
+import { requireRecentAuth } from '@/lib/recentAuth';
+import { useAuthStore } from '@/stores/authStore';
+import { TotpCode } from '@/components/passwords/TotpCode';
+import { SecretTextarea } from '@/components/passwords/SecretTextarea';
+import { SshKeyDetails } from '@/components/passwords/SshKeyDetails';
+import { GpgKeyDetails } from '@/components/passwords/GpgKeyDetails';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { toast } from 'sonner';
+import { Copy, Eye, EyeOff, History, RotateCcw } from 'lucide-react';
+
+interface PasswordDetailsDialogProps {
+  entry: Password | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function PasswordDetailsDialog({ entry, onOpenChange }: PasswordDetailsDialogProps) {
+  const { masterKey } = useAuthStore();
+  const [history, setHistory] = useState<PasswordHistoryEntry[]>([]);
+  const [visible, setVisible] = useState<Set<string>>(new Set());
+
+  const entryId = entry?.id;
+
+  useEffect(() => {
+    setVisible(new Set());
+    if (!entryId || !masterKey) {
+      setHistory([]);
+      return;
+    }
+
+    let cancelled = false;
+    const q = query(collection(db, 'passwords', entryId, 'history'), orderBy('changedAt', 'desc'));
+    const unsubscribe = onSnapshot(q, async (snapshot) => {
+      const results = await Promise.allSettled(
+        snapshot.docs.map((historyDoc) => decryptHistoryDoc(masterKey, historyDoc.id, historyDoc.data()))
+      );
+      if (cancelled) return;
+      setHistory(results
+        .filter((result): result is PromiseFulfilledResult<PasswordHistoryEntry> => result.status === 'fulfilled')
+        .map((result) => result.value));
+    });
+
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [entryId, masterKey]);
+
+  const toggleVisible = async (id: string) => {
+    if (!visible.has(id) && !(await requireRecentAuth('Confirm it is you before revealing this secret.'))) {
+      return;
+    }
+
+    setVisible((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const copyValue = (value: string, label: string) => copySecret(value, { label, source: entry?.title });
+
+  const handleRestore = async (item: PasswordHistoryEntry) => {
+    if (!entry || !masterKey) return;
+
+    try {
+      await updatePasswordEntry(masterKey, entry, { ...toPasswordSecret(entry), password: item.password }, {});
+      toast.success('Previous password restored');
+      onOpenChange(false);
+    } catch (error) {
+      toast.error('Failed to restore password');
+    }
+  };
+
+  const renderSecret = (id: string, value: string) => (
+    <code className="flex-1 min-w-0 truncate text-sm bg-muted px-2 py-0.5 rounded font-mono">
+      {visible.has(id) ? value : '••••••••••••'}
+    </code>
+  );
+
+  const renderCustomField = (field: CustomField) => {
+    switch (field.type) {
+      case 'totp':
+        return <TotpCode secret={field.value} source={entry?.title} />;
+      case 'hidden':
+        return (
+          <div className="flex items-center gap-1">
+            {renderSecret(field.id, field.value)}
+            <Button variant="ghost" size="icon-sm" onClick={() => toggleVisible(field.id)}>
+              {visible.has(field.id) ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+            </Button>
+            <Button variant="ghost" size="icon-sm" onClick={() => copyValue(field.value, field.label)}>
+              <Copy className="w-4 h-4" />
+            </Button>
+          </div>
+        );
+      case 'url': {
+        const href = getOpenableUrl(field.value);
+        if (!href) {
+          return <span className="text-foreground break-words">{field.value}</span>;
+        }
+        return (
+          <a href={href} target="_blank" rel="noopener noreferrer" className="text-primary hover:underline truncate block">
+            {field.value}
+          </a>
+        );
+      }
+      case 'date': {
+        const date = parseISO(field.value);
+        return <span className="text-foreground">{isValid(date) ? format(date, 'PP') : field.value}</span>;
+      }
+      default:
+        return (
+          <div className="flex items-center gap-1">
+            <span className="flex-1 min-w-0 text-foreground break-words">{field.value}</span>
+            <Button variant="ghost" size="icon-sm" onClick={() => copyValue(field.value, field.label)}>
+              <Copy className="w-4 h-4" />
+            </Button>
+          </div>
+        );
+    }
+  };
+
+  return (
+    <Dialog open={!!entry} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{entry?.title}</DialogTitle>
+        </DialogHeader>
+        {entry && (
+          <div className="space-y-6 mt-2">
+            <dl className="grid grid-cols-[max-content_1fr] gap-x-4 gap-y-2 text-sm">
+              <dt className="text-muted-foreground">Type</dt>
+              <dd className="text-foreground">{secretKindLabels[entry.kind ?? 'login']}</dd>
+              <dt className="text-muted-foreground">Username</dt>
+              <dd className="text-foreground truncate">{entry.username || '—'}</dd>
+              <dt className="text-muted-foreground">Website</dt>
+              <dd className="text-foreground truncate">{entry.website || '—'}</dd>
+              <dt className="text-muted-foreground">Category</dt>
+              <dd className="text-foreground">{entry.category}</dd>
+              {entry.scopes && (
+                <>
+                  <dt className="text-muted-foreground">Scopes</dt>
+                  <dd className="text-foreground font-mono break-words">{entry.scopes.join(', ')}</dd>
+                </>
+              )}
+              {entry.expiresAt && (
+                <>
+                  <dt className="text-muted-foreground">Expires</dt>
+                  <dd className={isTokenExpired(entry) ? 'text-destructive' : 'text-foreground'}>
+                    {format(parseISO(entry.expiresAt), 'PP')}
+                    {isTokenExpired(entry) && ' (expired)'}
+                  </dd>
+                </>
+              )}
+              <dt className="text-muted-foreground">Created</dt>
+              <dd className="text-foreground">{entry.createdAt ? format(entry.createdAt, 'PPp') : '—'}</dd>
+              {entry.updatedAt && (
+                <>
+                  <dt className="text-muted-foreground">Updated</dt>
+                  <dd className="text-foreground">{format(entry.updatedAt, 'PPp')}</dd>
+                </>
+              )}
+              {entry.lastChangedAt && (
+                <>
+                  <dt className="text-muted-foreground">{getSecretLabel(entry.kind)} changed</dt>
+                  <dd className="text-foreground">{format(entry.lastChangedAt, 'PPp')}</dd>
+                </>
+              )}
+            </dl>
+
+            <div>
+              <p className="text-sm font-medium text-foreground mb-2">Current {getSecretLabel(entry.kind).toLowerCase()}</p>
+              {isMultilineKind(entry.kind) ? (
+                <SecretTextarea key={entry.id} value={entry.password} label={getSecretLabel(entry.kind)} source={entry.title} />
+              ) : (
+                <div className="flex items-center gap-1">
+                  {renderSecret('current', entry.password)}
+                  <Button variant="ghost" size="icon-sm" onClick={() => toggleVisible('current')}>
+                    {visible.has('current') ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+                  </Button>
+                  <Button variant="ghost" size="icon-sm" onClick={() => copyValue(entry.password, getSecretLabel(entry.kind))}>
+                    <Copy className="w-4 h-4" />
+                  </Button>
+                </div>
+              )}
+            </div>
+
+            {entry.kind === 'ssh-key' && <SshKeyDetails privateKey={entry.password} source={entry.title} />}
+            {entry.kind === 'gpg-key' && <GpgKeyDetails privateKey={entry.password} source={entry.title} />}
+
+            {entry.customFields && entry.customFields.length > 0 && (
+              <div className="space-y-3">
+                {entry.customFields.map((field) => (
+                  <div key={field.id} className="text-sm">
+                    <p className="text-muted-foreground mb-1">{field.label}</p>
+                    {renderCustomField(field)}
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <div>
+              <p className="flex items-center gap-2 text-sm font-medium text-foreground mb-2">
+                <History className="w-4 h-4 text-muted-foreground" />
+                Password history
+              </p>
+              {history.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No previous passwords</p>
+              ) : (
+                <div className="space-y-2 max-h-64 overflow-y-auto">
+                  {history.map((item) => (
+                    <div key={item.id} className="flex items-center gap-1">
+                      <div className="flex-1 min-w-0">
+                        <div className="flex items-center">{renderSecret(item.id, item.password)}</div>
+                        <p className="text-xs text-muted-foreground mt-0.5">
+                          Replaced {item.changedAt ? format(item.changedAt, 'PPp') : ''}
+                        </p>
+                      </div>
+                      <Button variant="ghost" size="icon-sm" onClick={() => toggleVisible(item.id)}>
+                        {visible.has(item.id) ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+                      </Button>
+                      <Button variant="ghost" size="icon-sm" onClick={() => copyValue(item.password, 'Previous password')}>
+                        <Copy className="w-4 h-4" />
+                      </Button>
+                      <Button variant="ghost" size="icon-sm" onClick={() => handleRestore(item)} title="Restore">
+                        <RotateCcw className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
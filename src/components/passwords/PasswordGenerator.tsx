@@ -0,0 +1,221 @@
+import { useState, useEffect } from 'react';
+import {
+  CharacterClass,
+  GeneratorOptions,
+  estimateGeneratorEntropy,
+  generateSecret,
+} from '@/lib/passwordGenerator';
+import { useSettingsStore } from '@/stores/settingsStore';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { toast } from 'sonner';
+import { RefreshCw, SlidersHorizontal } from 'lucide-react';
+
+interface PasswordGeneratorProps {
+  onGenerate: (value: string) => void;
+}
+
+const classLabels: { value: CharacterClass; label: string }[] = [
+  { value: 'uppercase', label: 'Uppercase (A-Z)' },
+  { value: 'lowercase', label: 'Lowercase (a-z)' },
+  { value: 'digits', label: 'Digits (0-9)' },
+  { value: 'symbols', label: 'Symbols (!@#$)' },
+];
+
+// Keeps the per-type minimum satisfiable when the length shrinks or another type is switched on
+function clampMinPerClass(options: GeneratorOptions): GeneratorOptions {
+  const enabledClasses = classLabels.filter((cls) => options.classes[cls.value]).length;
+  const maxMinPerClass = Math.floor(options.length / Math.max(enabledClasses, 1));
+  return { ...options, minPerClass: Math.min(options.minPerClass, maxMinPerClass) };
+}
+
+function tryGenerate(options: GeneratorOptions): string {
+  try {
+    return generateSecret(options);
+  } catch {
+    return '';
+  }
+}
+
+export function PasswordGenerator({ onGenerate }: PasswordGeneratorProps) {
+  const { settings, updateSettings } = useSettingsStore();
+  const [open, setOpen] = useState(false);
+  const [options, setOptions] = useState<GeneratorOptions>(settings.generator);
+  const [preview, setPreview] = useState('');
+
+  useEffect(() => {
+    if (open) {
+      setOptions(clampMinPerClass(settings.generator));
+    }
+  }, [open, settings.generator]);
+
+  useEffect(() => {
+    setPreview(tryGenerate(options));
+  }, [options]);
+
+  const updateOptions = (changes: Partial<GeneratorOptions>) => {
+    setOptions((prev) => clampMinPerClass({ ...prev, ...changes }));
+  };
+
+  const enabledClasses = classLabels.filter((cls) => options.classes[cls.value]).length;
+  const maxMinPerClass = Math.max(0, Math.floor(options.length / Math.max(enabledClasses, 1)));
+
+  const handleQuickGenerate = () => {
+    try {
+      onGenerate(generateSecret(settings.generator));
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to generate password');
+    }
+  };
+
+  const handleUse = async () => {
+    if (!preview) return;
+    onGenerate(preview);
+    setOpen(false);
+    try {
+      await updateSettings({ generator: options });
+    } catch (error) {
+      toast.error('Failed to save generator settings');
+    }
+  };
+
+  return (
+    <>
+      <Button
+        type="button"
+        variant="outline"
+        size="icon"
+        onClick={handleQuickGenerate}
+        title="Generate password"
+      >
+        <RefreshCw className="w-4 h-4" />
+      </Button>
+      <Popover open={open} onOpenChange={setOpen}>
+        <PopoverTrigger asChild>
+          <Button type="button" variant="outline" size="icon" title="Generator settings">
+            <SlidersHorizontal className="w-4 h-4" />
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-80 space-y-4" align="end">
+          <Tabs value={options.mode} onValueChange={(mode) => updateOptions({ mode: mode as GeneratorOptions['mode'] })}>
+            <TabsList className="w-full">
+              <TabsTrigger value="password" className="flex-1">Password</TabsTrigger>
+              <TabsTrigger value="passphrase" className="flex-1">Passphrase</TabsTrigger>
+            </TabsList>
+          </Tabs>
+
+          <div className="flex gap-2">
+            <code className="flex-1 min-w-0 text-sm bg-muted px-2 py-1.5 rounded font-mono break-all">
+              {preview || 'Adjust the options below'}
+            </code>
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon-sm"
+              onClick={() => setPreview(tryGenerate(options))}
+              title="Regenerate"
+            >
+              <RefreshCw className="w-4 h-4" />
+            </Button>
+          </div>
+          <p className="text-xs text-muted-foreground">~{estimateGeneratorEntropy(options)} bits of entropy</p>
+
+          {options.mode === 'password' ? (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <div className="flex justify-between text-sm">
+                  <span className="font-medium text-foreground">Length</span>
+                  <span className="text-muted-foreground">{options.length}</span>
+                </div>
+                <Slider
+                  min={8}
+                  max={64}
+                  step={1}
+                  value={[options.length]}
+                  onValueChange={([length]) => updateOptions({ length })}
+                />
+              </div>
+              {classLabels.map((cls) => (
+                <div key={cls.value} className="flex items-center justify-between">
+                  <span className="text-sm text-foreground">{cls.label}</span>
+                  <Switch
+                    checked={options.classes[cls.value]}
+                    onCheckedChange={(checked) => updateOptions({
+                      classes: { ...options.classes, [cls.value]: checked },
+                    })}
+                  />
+                </div>
+              ))}
+              <div className="flex items-center justify-between">
+                <span className="text-sm text-foreground">Exclude ambiguous (l, 1, O, 0)</span>
+                <Switch
+                  checked={options.excludeAmbiguous}
+                  onCheckedChange={(excludeAmbiguous) => updateOptions({ excludeAmbiguous })}
+                />
+              </div>
+              <div className="space-y-2">
+                <div className="flex justify-between text-sm">
+                  <span className="font-medium text-foreground">Minimum per type</span>
+                  <span className="text-muted-foreground">{options.minPerClass}</span>
+                </div>
+                <Slider
+                  min={0}
+                  max={Math.min(maxMinPerClass, 10)}
+                  step={1}
+                  value={[options.minPerClass]}
+                  onValueChange={([minPerClass]) => updateOptions({ minPerClass })}
+                />
+              </div>
+            </div>
+          ) : (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <div className="flex justify-between text-sm">
+                  <span className="font-medium text-foreground">Words</span>
+                  <span className="text-muted-foreground">{options.wordCount}</span>
+                </div>
+                <Slider
+                  min={3}
+                  max={12}
+                  step={1}
+                  value={[options.wordCount]}
+                  onValueChange={([wordCount]) => updateOptions({ wordCount })}
+                />
+              </div>
+              <div className="flex items-center justify-between gap-4">
+                <span className="text-sm text-foreground">Separator</span>
+                <Input
+                  value={options.separator}
+                  onChange={(e) => updateOptions({ separator: e.target.value.slice(0, 3) })}
+                  className="w-16 h-8 text-center"
+                />
+              </div>
+              <div className="flex items-center justify-between">
+                <span className="text-sm text-foreground">Capitalize words</span>
+                <Switch
+                  checked={options.capitalize}
+                  onCheckedChange={(capitalize) => updateOptions({ capitalize })}
+                />
+              </div>
+              <div className="flex items-center justify-between">
+                <span className="text-sm text-foreground">Include a number</span>
+                <Switch
+                  checked={options.includeNumber}
+                  onCheckedChange={(includeNumber) => updateOptions({ includeNumber })}
+                />
+              </div>
+            </div>
+          )}
+
+          <Button type="button" className="w-full" onClick={handleUse} disabled={!preview}>
+            Use {options.mode === 'passphrase' ? 'passphrase' : 'password'}
+          </Button>
+        </PopoverContent>
+      </Popover>
+    </>
+  );
+}
@@ -0,0 +1,67 @@
+import { useState } from 'react';
+import { copySecret } from '@/lib/clipboard';
+import { requireRecentAuth } from '@/lib/recentAuth';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { Copy, Eye, EyeOff } from 'lucide-react';
+
+interface SecretTextareaProps {
+  value: string;
+  // Omit to render the secret read-only
+  onChange?: (value: string) => void;
+  label: string;
+  source?: string;
+  placeholder?: string;
+}
+
+export function SecretTextarea({ value, onChange, label, source, placeholder }: SecretTextareaProps) {
+  // An empty editable field starts revealed so a key can be pasted straight in
+  const [revealed, setRevealed] = useState(() => !!onChange && !value);
+  const lineCount = value.split('\n').length;
+
+  const toggleRevealed = async () => {
+    if (!revealed && value && !(await requireRecentAuth('Confirm it is you before revealing this secret.'))) {
+      return;
+    }
+    setRevealed((prev) => !prev);
+  };
+
+  return (
+    <div className="space-y-1">
+      {revealed ? (
+        <Textarea
+          value={value}
+          onChange={(e) => onChange?.(e.target.value)}
+          readOnly={!onChange}
+          placeholder={placeholder}
+          rows={Math.min(Math.max(lineCount, 4), 12)}
+          spellCheck={false}
+          autoComplete="off"
+          autoCorrect="off"
+          autoCapitalize="off"
+          className="font-mono text-xs"
+        />
+      ) : (
+        <div className="rounded-md border border-input bg-muted px-3 py-2 font-mono text-xs text-muted-foreground">
+          {value ? `•••••••••••• (${lineCount} line${lineCount === 1 ? '' : 's'})` : '—'}
+        </div>
+      )}
+      <div className="flex justify-end gap-1">
+        <Button type="button" variant="ghost" size="sm" onClick={toggleRevealed}>
+          {revealed ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+          {revealed ? 'Hide' : 'Reveal'}
+        </Button>
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          onClick={() => copySecret(value, { label, source })}
+          disabled={!value}
+        >
+          <Copy className="w-4 h-4" />
+          Copy
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,152 @@
+import { useState } from 'react';
+import { Password } from '@/lib/passwords';
+import { createShare, revokeShare, shareExpiryOptions, shareViewOptions } from '@/lib/shares';
+import { copySecret } from '@/lib/clipboard';
+import { requireRecentAuth } from '@/lib/recentAuth';
+import { useAuthStore } from '@/stores/authStore';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { toast } from 'sonner';
+import { Copy, Link2, Loader2 } from 'lucide-react';
+
+interface ShareDialogProps {
+  entry: Password | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function ShareDialog({ entry, onOpenChange }: ShareDialogProps) {
+  const { user } = useAuthStore();
+  const [expiresInHours, setExpiresInHours] = useState(24);
+  const [maxViews, setMaxViews] = useState(1);
+  const [includeUsername, setIncludeUsername] = useState(true);
+  const [creating, setCreating] = useState(false);
+  const [link, setLink] = useState<string | null>(null);
+
+  const reset = () => {
+    setExpiresInHours(24);
+    setMaxViews(1);
+    setIncludeUsername(true);
+    setLink(null);
+  };
+
+  const handleCreate = async () => {
+    if (!user || !entry) return;
+    if (!(await requireRecentAuth('Confirm it is you before sharing this password.'))) return;
+
+    setCreating(true);
+    try {
+      const url = await createShare(
+        user.uid,
+        {
+          title: entry.title,
+          username: includeUsername ? entry.username : undefined,
+          password: entry.password,
+          website: entry.website,
+        },
+        { expiresInHours, maxViews }
+      );
+      setLink(url);
+    } catch (error) {
+      toast.error('Failed to create share link');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleRevoke = async () => {
+    if (!link) return;
+
+    try {
+      await revokeShare(new URL(link).pathname.split('/').pop() ?? '');
+      toast.success('Share link revoked');
+      setLink(null);
+    } catch (error) {
+      toast.error('Failed to revoke share link');
+    }
+  };
+
+  return (
+    <Dialog open={!!entry} onOpenChange={(open) => { onOpenChange(open); if (!open) reset(); }}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Share {entry?.title}</DialogTitle>
+          <DialogDescription>
+            Creates a link that reveals this login to someone without an account. The link stops working once it
+            has been viewed or has expired.
+          </DialogDescription>
+        </DialogHeader>
+
+        {link ? (
+          <div className="space-y-4 mt-2">
+            <div className="flex gap-2">
+              <Input value={link} readOnly className="font-mono text-xs" onFocus={(e) => e.target.select()} />
+              <Button
+                variant="outline"
+                size="icon"
+                onClick={() => copySecret(link, { label: 'Share link', source: entry?.title })}
+                title="Copy link"
+              >
+                <Copy className="w-4 h-4" />
+              </Button>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Anyone with this link can read the password. Send it over a channel you trust.
+            </p>
+            <div className="flex gap-2">
+              <Button variant="outline" className="flex-1" onClick={handleRevoke}>
+                Revoke link
+              </Button>
+              <Button className="flex-1" onClick={() => { onOpenChange(false); reset(); }}>
+                Done
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-4 mt-2">
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="text-sm font-medium text-foreground">Expires after</label>
+                <Select value={String(expiresInHours)} onValueChange={(v) => setExpiresInHours(Number(v))}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {shareExpiryOptions.map((option) => (
+                      <SelectItem key={option.value} value={String(option.value)}>{option.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <label className="text-sm font-medium text-foreground">Views allowed</label>
+                <Select value={String(maxViews)} onValueChange={(v) => setMaxViews(Number(v))}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {shareViewOptions.map((views) => (
+                      <SelectItem key={views} value={String(views)}>
+                        {views === 1 ? '1 view' : `${views} views`}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <label className="flex items-center justify-between gap-3 text-sm text-foreground">
+              Include username
+              <Switch checked={includeUsername} onCheckedChange={setIncludeUsername} />
+            </label>
+            <Button className="w-full" onClick={handleCreate} disabled={creating}>
+              {creating ? <Loader2 className="w-4 h-4 animate-spin" /> : <Link2 className="w-4 h-4" />}
+              Create link
+            </Button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,81 @@
+import { useEffect, useState } from 'react';
+import { SshKeyInfo, parseSshKey } from '@/lib/sshKeys';
+import { copySecret } from '@/lib/clipboard';
+import { Button } from '@/components/ui/button';
+import { Copy, Lock } from 'lucide-react';
+
+interface SshKeyDetailsProps {
+  privateKey: string;
+  source?: string;
+  // One-line summary for list rows
+  compact?: boolean;
+}
+
+export function SshKeyDetails({ privateKey, source, compact }: SshKeyDetailsProps) {
+  // undefined while parsing, null when the text is not an SSH key
+  const [info, setInfo] = useState<SshKeyInfo | null | undefined>(undefined);
+
+  useEffect(() => {
+    let cancelled = false;
+    parseSshKey(privateKey).then((result) => {
+      if (!cancelled) setInfo(result);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [privateKey]);
+
+  if (info === undefined) return null;
+
+  if (!info) {
+    return <p className={compact ? 'text-xs text-muted-foreground' : 'text-sm text-muted-foreground'}>Not a recognised SSH key</p>;
+  }
+
+  if (compact) {
+    return (
+      <p className="flex items-center gap-1 text-xs text-muted-foreground font-mono truncate">
+        {info.encrypted && <Lock className="w-3 h-3 shrink-0" />}
+        {[info.type, info.fingerprint].filter(Boolean).join(' · ')}
+      </p>
+    );
+  }
+
+  return (
+    <dl className="grid grid-cols-[max-content_1fr] gap-x-4 gap-y-2 text-sm">
+      <dt className="text-muted-foreground">Key type</dt>
+      <dd className="flex items-center gap-2 text-foreground">
+        {info.type}
+        {info.encrypted && (
+          <span className="inline-flex items-center gap-1 text-xs px-2 py-0.5 rounded-full bg-muted text-muted-foreground">
+            <Lock className="w-3 h-3" />
+            Passphrase protected
+          </span>
+        )}
+      </dd>
+      {info.comment && (
+        <>
+          <dt className="text-muted-foreground">Comment</dt>
+          <dd className="text-foreground truncate">{info.comment}</dd>
+        </>
+      )}
+      <dt className="text-muted-foreground">Fingerprint</dt>
+      <dd className="font-mono text-xs text-foreground break-all">{info.fingerprint ?? 'Unavailable for this key format'}</dd>
+      {info.publicKey && (
+        <>
+          <dt className="text-muted-foreground">Public key</dt>
+          <dd className="flex items-start gap-1">
+            <code className="flex-1 min-w-0 text-xs bg-muted px-2 py-1 rounded font-mono break-all">{info.publicKey}</code>
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon-sm"
+              onClick={() => copySecret(info.publicKey ?? '', { label: 'Public key', source })}
+            >
+              <Copy className="w-4 h-4" />
+            </Button>
+          </dd>
+        </>
+      )}
+    </dl>
+  );
+}
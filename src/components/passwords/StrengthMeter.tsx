@@ -0,0 +1,56 @@
+import { useMemo } from 'react';
+import { StrengthScore, estimateStrength, strengthLabels } from '@/lib/passwordStrength';
+import { cn } from '@/lib/utils';
+
+interface StrengthMeterProps {
+  password: string;
+}
+
+const strengthColors: Record<StrengthScore, string> = {
+  0: 'bg-red-500',
+  1: 'bg-orange-500',
+  2: 'bg-amber-500',
+  3: 'bg-lime-500',
+  4: 'bg-green-500',
+};
+
+export function StrengthMeter({ password }: StrengthMeterProps) {
+  const result = useMemo(() => estimateStrength(password), [password]);
+
+  if (!password) return null;
+
+  return (
+    <div className="mt-2 space-y-1">
+      <div className="flex gap-1">
+        {[0, 1, 2, 3].map((segment) => (
+          <div
+            key={segment}
+            className={cn(
+              "h-1.5 flex-1 rounded-full transition-colors",
+              segment < Math.max(result.score, 1) ? strengthColors[result.score] : "bg-muted"
+            )}
+          />
+        ))}
+      </div>
+      <div className="flex justify-between text-xs">
+        <span className="font-medium text-foreground">{result.label}</span>
+        <span className="text-muted-foreground">~{result.entropy} bits</span>
+      </div>
+      {result.warning && (
+        <p className="text-xs text-destructive">{result.warning}</p>
+      )}
+      {result.suggestions.slice(0, 2).map((suggestion) => (
+        <p key={suggestion} className="text-xs text-muted-foreground">{suggestion}</p>
+      ))}
+    </div>
+  );
+}
+
+export function StrengthBadge({ score }: { score: StrengthScore }) {
+  return (
+    <span className="inline-flex items-center gap-1.5 text-xs text-muted-foreground">
+      <span className={cn("w-2 h-2 rounded-full", strengthColors[score])} />
+      {strengthLabels[score]}
+    </span>
+  );
+}
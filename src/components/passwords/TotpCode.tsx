@@ -0,0 +1,90 @@
+import { useEffect, useMemo, useState } from 'react';
+import { TotpConfig, generateTotp, getTotpRemaining, parseTotpInput } from '@/lib/totp';
+import { copySecret } from '@/lib/clipboard';
+import { Button } from '@/components/ui/button';
+import { Copy } from 'lucide-react';
+
+interface TotpCodeProps {
+  secret: string;
+  source?: string;
+}
+
+const RING_RADIUS = 9;
+const RING_CIRCUMFERENCE = 2 * Math.PI * RING_RADIUS;
+
+export function TotpCode({ secret, source }: TotpCodeProps) {
+  const config = useMemo<TotpConfig | null>(() => {
+    try {
+      return parseTotpInput(secret);
+    } catch {
+      return null;
+    }
+  }, [secret]);
+  const [code, setCode] = useState('');
+  const [remaining, setRemaining] = useState(0);
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    if (!config) return;
+
+    setFailed(false);
+    let cancelled = false;
+    let currentStep = -1;
+    const tick = () => {
+      const now = Date.now();
+      setRemaining(getTotpRemaining(config, now));
+      const step = Math.floor(now / 1000 / config.period);
+      if (step !== currentStep) {
+        currentStep = step;
+        generateTotp(config, now)
+          .then((next) => {
+            if (!cancelled) setCode(next);
+          })
+          .catch(() => {
+            if (!cancelled) setFailed(true);
+          });
+      }
+    };
+
+    tick();
+    const interval = window.setInterval(tick, 1000);
+    return () => {
+      cancelled = true;
+      window.clearInterval(interval);
+    };
+  }, [config]);
+
+  if (!config || failed) {
+    return <span className="text-xs text-destructive">Invalid authenticator key</span>;
+  }
+
+  const formatted = config.digits === 8
+    ? `${code.slice(0, 4)} ${code.slice(4)}`
+    : `${code.slice(0, 3)} ${code.slice(3)}`;
+
+  const copyCode = () => copySecret(code, { label: 'Code', source });
+
+  return (
+    <div className="flex items-center gap-2">
+      <svg className="w-5 h-5 -rotate-90" viewBox="0 0 24 24">
+        <circle cx="12" cy="12" r={RING_RADIUS} className="stroke-muted" strokeWidth="3" fill="none" />
+        <circle
+          cx="12"
+          cy="12"
+          r={RING_RADIUS}
+          className={remaining <= 5 ? 'stroke-destructive' : 'stroke-primary'}
+          strokeWidth="3"
+          fill="none"
+          strokeDasharray={RING_CIRCUMFERENCE}
+          strokeDashoffset={RING_CIRCUMFERENCE * (1 - remaining / config.period)}
+          style={{ transition: 'stroke-dashoffset 1s linear' }}
+        />
+      </svg>
+      <code className="text-sm font-mono font-semibold tracking-wider text-foreground">{formatted}</code>
+      <span className="text-xs text-muted-foreground w-6">{remaining}s</span>
+      <Button variant="ghost" size="icon-sm" onClick={copyCode} title="Copy code">
+        <Copy className="w-4 h-4" />
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,108 @@
+import { useState } from 'react';
+import { FirebaseError } from 'firebase/app';
+import { TotpSecret } from 'firebase/auth';
+import { QRCodeSVG } from 'qrcode.react';
+import { finishTotpEnrollment, getTotpQrUrl } from '@/lib/mfa';
+import { copySecret } from '@/lib/clipboard';
+import { useAuthStore } from '@/stores/authStore';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { toast } from 'sonner';
+import { Copy, Loader2 } from 'lucide-react';
+
+interface EnrollTotpDialogProps {
+  secret: TotpSecret | null;
+  onOpenChange: (open: boolean) => void;
+  onEnrolled: (recoveryCodes: string[]) => void;
+}
+
+export function EnrollTotpDialog({ secret, onOpenChange, onEnrolled }: EnrollTotpDialogProps) {
+  const { user } = useAuthStore();
+  const [code, setCode] = useState('');
+  const [displayName, setDisplayName] = useState('Authenticator app');
+  const [loading, setLoading] = useState(false);
+
+  const close = (open: boolean) => {
+    if (!open) {
+      setCode('');
+      setDisplayName('Authenticator app');
+    }
+    onOpenChange(open);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user || !secret) return;
+
+    setLoading(true);
+    try {
+      const codes = await finishTotpEnrollment(user, secret, code, displayName.trim() || 'Authenticator app');
+      close(false);
+      onEnrolled(codes);
+      toast.success('Two-step verification is on');
+    } catch (error) {
+      toast.error(
+        error instanceof FirebaseError && error.code === 'auth/invalid-verification-code'
+          ? 'That code is not valid. Check the time on your device and try again.'
+          : 'Failed to set up authenticator app'
+      );
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!secret} onOpenChange={close}>
+      <DialogContent className="sm:max-w-md max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Set up authenticator app</DialogTitle>
+          <DialogDescription>
+            Scan the QR code with an app like Google Authenticator, 1Password or Authy, then enter the code it shows.
+          </DialogDescription>
+        </DialogHeader>
+        {secret && user && (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="flex justify-center rounded-lg bg-white p-4">
+              <QRCodeSVG value={getTotpQrUrl(secret, user)} size={176} />
+            </div>
+            <div>
+              <label className="text-sm font-medium text-foreground">Or enter this key manually</label>
+              <div className="flex items-center gap-1">
+                <code className="flex-1 min-w-0 break-all text-sm bg-muted px-2 py-1 rounded font-mono">
+                  {secret.secretKey}
+                </code>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon-sm"
+                  onClick={() => copySecret(secret.secretKey, { label: 'Setup key' })}
+                >
+                  <Copy className="w-4 h-4" />
+                </Button>
+              </div>
+            </div>
+            <div>
+              <label className="text-sm font-medium text-foreground">Device name</label>
+              <Input value={displayName} onChange={(e) => setDisplayName(e.target.value)} />
+            </div>
+            <div>
+              <label className="text-sm font-medium text-foreground">Verification code</label>
+              <Input
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                placeholder="123456"
+                inputMode="numeric"
+                autoComplete="one-time-code"
+                required
+              />
+            </div>
+            <Button type="submit" className="w-full" disabled={loading}>
+              {loading ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Turn on'}
+            </Button>
+          </form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,55 @@
+import { downloadRecoveryCodes } from '@/lib/mfa';
+import { copySecret } from '@/lib/clipboard';
+import { useAuthStore } from '@/stores/authStore';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Copy, Download } from 'lucide-react';
+
+interface RecoveryCodesDialogProps {
+  codes: string[] | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function RecoveryCodesDialog({ codes, onOpenChange }: RecoveryCodesDialogProps) {
+  const { user } = useAuthStore();
+
+  return (
+    <Dialog open={!!codes} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Save your recovery codes</DialogTitle>
+          <DialogDescription>
+            If you lose your authenticator app, a code removes it from your account so you can sign in and set
+            up a new one. They will not be shown again, and any older codes no longer work.
+          </DialogDescription>
+        </DialogHeader>
+        {codes && (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-2 rounded-lg bg-muted p-4 font-mono text-sm text-foreground">
+              {codes.map((code) => (
+                <span key={code}>{code}</span>
+              ))}
+            </div>
+            <div className="flex gap-2">
+              <Button variant="outline" className="flex-1" onClick={() => downloadRecoveryCodes(codes, user?.email ?? null)}>
+                <Download className="w-4 h-4" />
+                Download
+              </Button>
+              <Button
+                variant="outline"
+                className="flex-1"
+                onClick={() => copySecret(codes.join('\n'), { label: 'Recovery codes' })}
+              >
+                <Copy className="w-4 h-4" />
+                Copy
+              </Button>
+            </div>
+            <Button className="w-full" onClick={() => onOpenChange(false)}>
+              I have saved these codes
+            </Button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
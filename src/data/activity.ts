@@ -0,0 +1,18 @@
+import { z } from 'zod';
+import { Entity, createRepository, encryptedPayloadSchema, timestamp } from '@/data/repository';
+
+// The stored shape only. The description lives inside `encrypted` and is read by decryptActivityDoc.
+export const storedActivitySchema = z.object({
+  userId: z.string(),
+  type: z.enum(['copy']),
+  encrypted: encryptedPayloadSchema,
+  createdAt: timestamp,
+});
+
+export type StoredActivity = Entity<typeof storedActivitySchema>;
+
+export const activityRepository = createRepository({
+  name: 'activity',
+  label: 'activity events',
+  schema: storedActivitySchema,
+});
@@ -0,0 +1,44 @@
+import { z } from 'zod';
+import { Entity, createRepository, encryptedPayloadSchema, timestamp } from '@/data/repository';
+import { vaultItemSchema } from '@/data/vault';
+
+// Public keys are stored as JWKs; the browser validates them when they are imported
+const jsonWebKeySchema = z.custom<JsonWebKey>((value) => typeof value === 'object' && value !== null);
+
+export const emergencyGrantSchema = z.object({
+  ownerId: z.string(),
+  ownerEmail: z.string(),
+  contactEmail: z.string(),
+  contactId: z.string().optional(),
+  contactPublicKey: jsonWebKeySchema.optional(),
+  waitingDays: z.number(),
+  categories: z.array(z.string()),
+  vaultTypes: z.array(vaultItemSchema.shape.type),
+  // invited -> accepted (contact registered a public key) -> confirmed (owner wrapped the grant key)
+  // -> requested (waiting period running) -> granted. Denying a request returns it to confirmed.
+  status: z.enum(['invited', 'accepted', 'confirmed', 'requested', 'granted']),
+  // The grant key sealed with the owner's master key, so the owner can keep the copy up to date
+  ownerKey: encryptedPayloadSchema,
+  // Set by the server when the contact asks for access, so the waiting period cannot be backdated
+  requestedAt: timestamp.optional(),
+  syncedAt: timestamp.optional(),
+  createdAt: timestamp,
+});
+
+export type EmergencyGrant = Entity<typeof emergencyGrantSchema>;
+
+// The grant key sealed for the contact with an ECDH key agreement. It is kept beside the copy, where
+// security rules only let the contact read it once access has been granted or the waiting period is over.
+export const contactKeySchema = z.object({
+  publicKey: jsonWebKeySchema,
+  payload: encryptedPayloadSchema,
+});
+
+export type ContactKey = z.infer<typeof contactKeySchema>;
+
+export const emergencyAccessRepository = createRepository({
+  name: 'emergencyAccess',
+  label: 'emergency access grants',
+  schema: emergencyGrantSchema,
+  ownerField: 'ownerId',
+});
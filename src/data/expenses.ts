@@ -0,0 +1,18 @@
+import { z } from 'zod';
+import { Entity, createRepository, timestamp } from '@/data/repository';
+
+export const expenseSchema = z.object({
+  userId: z.string(),
+  description: z.string(),
+  amount: z.number(),
+  category: z.string(),
+  source: z.string(),
+  // yyyy-MM-dd
+  date: z.string(),
+  proofUrl: z.string().optional(),
+  createdAt: timestamp,
+});
+
+export type Expense = Entity<typeof expenseSchema>;
+
+export const expensesRepository = createRepository({ name: 'expenses', label: 'expenses', schema: expenseSchema });
@@ -0,0 +1,15 @@
+import { z } from 'zod';
+import { createRepository, timestamp } from '@/data/repository';
+
+// Each document is keyed by the SHA-256 of one recovery code, which is never stored itself
+export const recoveryCodeSchema = z.object({
+  ownerId: z.string(),
+  createdAt: timestamp,
+});
+
+export const recoveryCodesRepository = createRepository({
+  name: 'mfaRecovery',
+  label: 'recovery codes',
+  schema: recoveryCodeSchema,
+  ownerField: 'ownerId',
+});
@@ -0,0 +1,15 @@
+import { z } from 'zod';
+import { Entity, createRepository, timestamp } from '@/data/repository';
+
+export const noteSchema = z.object({
+  userId: z.string(),
+  title: z.string(),
+  content: z.string().default(''),
+  tags: z.array(z.string()).default([]),
+  createdAt: timestamp,
+  updatedAt: timestamp.optional(),
+});
+
+export type Note = Entity<typeof noteSchema>;
+
+export const notesRepository = createRepository({ name: 'notes', label: 'notes', schema: noteSchema });
@@ -0,0 +1,26 @@
+import { z } from 'zod';
+import { Entity, createRepository, encryptedPayloadSchema, timestamp } from '@/data/repository';
+
+// The stored shape only. The secret fields live inside `encrypted` and are read by decryptPasswordDoc.
+export const storedPasswordSchema = z.object({
+  userId: z.string(),
+  encrypted: encryptedPayloadSchema.optional(),
+  // Plaintext fields from before encryption, re-written as ciphertext on first read
+  title: z.string().optional(),
+  username: z.string().optional(),
+  password: z.string().optional(),
+  website: z.string().optional(),
+  category: z.string(),
+  rotationDays: z.number().optional(),
+  createdAt: timestamp,
+  updatedAt: timestamp.optional(),
+  lastChangedAt: timestamp.optional(),
+});
+
+export type StoredPassword = Entity<typeof storedPasswordSchema>;
+
+export const passwordsRepository = createRepository({
+  name: 'passwords',
+  label: 'passwords',
+  schema: storedPasswordSchema,
+});
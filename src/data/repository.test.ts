@@ -0,0 +1,105 @@
+import { describe, expect, it, vi } from 'vitest';
+import { z } from 'zod';
+import { QueryDocumentSnapshot, QuerySnapshot, Timestamp, deleteField, serverTimestamp } from 'firebase/firestore';
+import { Entity, MalformedDocumentError, createConverter, parseSnapshot, parseWrite, timestamp } from '@/data/repository';
+
+vi.mock('@/lib/firebase', () => ({ db: {} }));
+
+const noteSchema = z.object({
+  userId: z.string(),
+  title: z.string(),
+  pinned: z.boolean().optional(),
+  createdAt: timestamp,
+});
+
+type Note = Entity<typeof noteSchema>;
+
+function fakeDoc(id: string, data: Record<string, unknown>): QueryDocumentSnapshot {
+  return { id, data: () => data } as unknown as QueryDocumentSnapshot;
+}
+
+describe('parseWrite', () => {
+  const createdAt = new Date('2024-01-01T00:00:00Z');
+
+  it('validates a full document', () => {
+    expect(parseWrite(noteSchema, { userId: 'u1', title: 'Hello', createdAt })).toEqual({
+      userId: 'u1',
+      title: 'Hello',
+      createdAt,
+    });
+  });
+
+  it('rejects keys the schema does not know', () => {
+    expect(() => parseWrite(noteSchema, { userId: 'u1', title: 'Hello', createdAt, color: 'red' })).toThrow(z.ZodError);
+  });
+
+  it('rejects missing fields unless the write is partial', () => {
+    expect(() => parseWrite(noteSchema, { title: 'Hello' })).toThrow(z.ZodError);
+    expect(parseWrite(noteSchema, { title: 'Hello' }, true)).toEqual({ title: 'Hello' });
+  });
+
+  it('rejects fields of the wrong type', () => {
+    expect(() => parseWrite(noteSchema, { title: 42 }, true)).toThrow(z.ZodError);
+  });
+
+  it('passes sentinels through in place of their fields', () => {
+    const now = serverTimestamp();
+    const cleared = deleteField();
+    const written = parseWrite(noteSchema, { userId: 'u1', title: 'Hello', createdAt: now });
+    expect(written.createdAt).toBe(now);
+
+    expect(parseWrite(noteSchema, { pinned: cleared }, true)).toEqual({ pinned: cleared });
+  });
+
+  it('still rejects unknown keys written as sentinels', () => {
+    expect(() => parseWrite(noteSchema, { title: 'Hello', color: deleteField() }, true)).toThrow(z.ZodError);
+  });
+});
+
+describe('createConverter', () => {
+  const converter = createConverter('notes', noteSchema);
+
+  it('parses Timestamps into Dates and adds the id', () => {
+    const createdAt = new Date('2024-01-01T00:00:00Z');
+    const note = converter.fromFirestore(
+      fakeDoc('n1', { userId: 'u1', title: 'Hello', createdAt: Timestamp.fromDate(createdAt) })
+    );
+    expect(note).toEqual({ id: 'n1', userId: 'u1', title: 'Hello', createdAt });
+  });
+
+  it('throws a MalformedDocumentError for documents that do not match', () => {
+    expect(() => converter.fromFirestore(fakeDoc('n2', { userId: 'u1' }))).toThrow(MalformedDocumentError);
+  });
+
+  it('leaves the id out of the written data', () => {
+    expect(converter.toFirestore({ id: 'n1', userId: 'u1', title: 'Hello', createdAt: new Date(0) })).not.toHaveProperty('id');
+  });
+});
+
+describe('parseSnapshot', () => {
+  const docOf = (data: () => Note) => ({ data }) as QueryDocumentSnapshot<Note>;
+  const snapshotOf = (...docs: QueryDocumentSnapshot<Note>[]) => ({ docs }) as QuerySnapshot<Note>;
+  const note: Note = { id: 'n1', userId: 'u1', title: 'Hello', createdAt: new Date(0) };
+
+  it('splits readable documents from malformed ones', () => {
+    const malformed = new MalformedDocumentError('notes', 'n2', []);
+    const result = parseSnapshot(
+      snapshotOf(
+        docOf(() => note),
+        docOf(() => {
+          throw malformed;
+        })
+      )
+    );
+    expect(result).toEqual({ items: [note], malformed: [malformed] });
+  });
+
+  it('rethrows errors that are not about the schema', () => {
+    const snapshot = snapshotOf(
+      docOf(() => {
+        throw new Error('boom');
+      })
+    );
+    expect(() => parseSnapshot(snapshot)).toThrow('boom');
+  });
+});
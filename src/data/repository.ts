@@ -0,0 +1,185 @@
+import { z } from 'zod';
+import {
+  DocumentData,
+  DocumentReference,
+  FieldValue,
+  FirestoreDataConverter,
+  PartialWithFieldValue,
+  Query,
+  QueryDocumentSnapshot,
+  QuerySnapshot,
+  SnapshotOptions,
+  Timestamp,
+  WithFieldValue,
+  addDoc,
+  collection,
+  deleteDoc,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  updateDoc,
+  where,
+} from 'firebase/firestore';
+import { toast } from 'sonner';
+import { EncryptedPayload } from '@/lib/crypto';
+import { db } from '@/lib/firebase';
+
+export type WithId<T> = T & { id: string };
+
+export type Entity<S extends z.AnyZodObject> = WithId<z.infer<S>>;
+
+export type EntityChanges<S extends z.AnyZodObject> = PartialWithFieldValue<z.input<S>>;
+
+// Firestore hands back Timestamps; everything above this layer works with Dates
+export const timestamp = z.preprocess((value) => (value instanceof Timestamp ? value.toDate() : value), z.date());
+
+// Both keys are required at runtime; the cast only undoes zod marking them optional without strictNullChecks
+export const encryptedPayloadSchema = z
+  .object({
+    iv: z.string(),
+    ciphertext: z.string(),
+  })
+  .transform((payload) => payload as EncryptedPayload);
+
+export class MalformedDocumentError extends Error {
+  constructor(
+    readonly collectionName: string,
+    readonly docId: string,
+    readonly issues: z.ZodIssue[]
+  ) {
+    super(`${collectionName}/${docId} does not match its schema`);
+    this.name = 'MalformedDocumentError';
+  }
+}
+
+// Validates every document on the way out of Firestore instead of trusting an `as` cast
+export function createConverter<S extends z.AnyZodObject>(name: string, schema: S): FirestoreDataConverter<Entity<S>> {
+  return {
+    toFirestore: ({ id, ...data }: DocumentData) => data,
+    fromFirestore: (snapshot: QueryDocumentSnapshot, options?: SnapshotOptions) => {
+      // A serverTimestamp() still waiting on the server reads as the local estimate rather than null
+      const result = schema.safeParse(snapshot.data({ serverTimestamps: 'estimate', ...options }));
+      if (!result.success) {
+        throw new MalformedDocumentError(name, snapshot.id, result.error.issues);
+      }
+      return { ...result.data, id: snapshot.id } as Entity<S>;
+    },
+  };
+}
+
+// Splits a snapshot into the documents that parsed and the ones that did not
+export function parseSnapshot<T>(snapshot: QuerySnapshot<T>): { items: T[]; malformed: MalformedDocumentError[] } {
+  const items: T[] = [];
+  const malformed: MalformedDocumentError[] = [];
+
+  snapshot.docs.forEach((snapshotDoc) => {
+    try {
+      items.push(snapshotDoc.data());
+    } catch (error) {
+      if (!(error instanceof MalformedDocumentError)) throw error;
+      malformed.push(error);
+    }
+  });
+
+  return { items, malformed };
+}
+
+export function reportMalformedDocs(label: string, malformed: MalformedDocumentError[]): void {
+  if (malformed.length === 0) return;
+
+  toast.error(`${malformed.length} of your ${label} could not be read`, { id: `malformed-${label}` });
+}
+
+// Sentinels such as deleteField() and serverTimestamp() are not data, so they skip validation and are
+// written as given. Any other key the schema does not know is rejected rather than silently dropped.
+export function parseWrite<S extends z.AnyZodObject>(schema: S, data: DocumentData, partial = false): DocumentData {
+  const entries = Object.entries(data);
+  const sentinels = entries.filter(([, value]) => value instanceof FieldValue);
+  const unknownKeys = sentinels.map(([key]) => key).filter((key) => !(key in schema.shape));
+  if (unknownKeys.length > 0) {
+    throw new z.ZodError([
+      { code: z.ZodIssueCode.unrecognized_keys, keys: unknownKeys, path: [], message: 'Unrecognized key(s) in object' },
+    ]);
+  }
+
+  const sentinelKeys = Object.fromEntries(sentinels.map(([key]) => [key, true] as const));
+  const fieldsSchema = (partial ? schema.partial() : schema).omit(sentinelKeys).strict();
+
+  const fields = fieldsSchema.parse(Object.fromEntries(entries.filter(([, value]) => !(value instanceof FieldValue))));
+  return { ...fields, ...Object.fromEntries(sentinels) };
+}
+
+interface RepositoryOptions<S extends z.AnyZodObject> {
+  name: string;
+  // Plural noun used when reporting unreadable documents, e.g. "notes"
+  label: string;
+  schema: S;
+  // Field holding the owning user's uid, when it is not userId
+  ownerField?: string;
+}
+
+export interface Repository<S extends z.AnyZodObject> {
+  name: string;
+  label: string;
+  schema: S;
+  converter: FirestoreDataConverter<Entity<S>>;
+  findBy: (field: string, value: unknown) => Query<Entity<S>>;
+  ownedBy: (userId: string) => Query<Entity<S>>;
+  list: (userId: string) => Promise<Entity<S>[]>;
+  get: (id: string) => Promise<Entity<S> | null>;
+  add: (data: WithFieldValue<z.input<S>>) => Promise<string>;
+  update: (id: string, changes: EntityChanges<S>) => Promise<void>;
+  remove: (id: string) => Promise<void>;
+  // For writes that have to share a batch with other documents
+  ref: (id?: string) => DocumentReference;
+  parse: (data: WithFieldValue<z.input<S>>) => DocumentData;
+  parseChanges: (changes: EntityChanges<S>) => DocumentData;
+}
+
+// Writes are validated against the same schema as reads, so bad data never reaches Firestore
+export function createRepository<S extends z.AnyZodObject>({
+  name,
+  label,
+  schema,
+  ownerField = 'userId',
+}: RepositoryOptions<S>): Repository<S> {
+  const converter = createConverter(name, schema);
+  const ref = (id?: string) => (id ? doc(db, name, id) : doc(collection(db, name)));
+  const parse = (data: DocumentData) => parseWrite(schema, data);
+  const parseChanges = (changes: DocumentData) => parseWrite(schema, changes, true);
+  const findBy = (field: string, value: unknown) =>
+    query(collection(db, name).withConverter(converter), where(field, '==', value));
+  const ownedBy = (userId: string) => findBy(ownerField, userId);
+
+  return {
+    name,
+    label,
+    schema,
+    converter,
+    findBy,
+    ownedBy,
+    list: async (userId) => {
+      const { items, malformed } = parseSnapshot(await getDocs(ownedBy(userId)));
+      reportMalformedDocs(label, malformed);
+      return items;
+    },
+    get: async (id) => {
+      const snapshot = await getDoc(ref(id).withConverter(converter));
+      return snapshot.exists() ? snapshot.data() : null;
+    },
+    add: async (data) => {
+      const added = await addDoc(collection(db, name), parse(data));
+      return added.id;
+    },
+    update: async (id, changes) => {
+      await updateDoc(ref(id), parseChanges(changes));
+    },
+    remove: async (id) => {
+      await deleteDoc(ref(id));
+    },
+    ref,
+    parse,
+    parseChanges,
+  };
+}
@@ -0,0 +1,16 @@
+import { z } from 'zod';
+import { Entity, createRepository, timestamp } from '@/data/repository';
+
+export const sessionSchema = z.object({
+  userId: z.string(),
+  userAgent: z.string().default(''),
+  createdAt: timestamp,
+  lastSeenAt: timestamp,
+  // Set from another device; the revoked one notices on its next snapshot and signs itself out
+  revoked: z.boolean().default(false),
+  revokedAt: timestamp.optional(),
+});
+
+export type Session = Entity<typeof sessionSchema>;
+
+export const sessionsRepository = createRepository({ name: 'sessions', label: 'sessions', schema: sessionSchema });
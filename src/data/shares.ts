@@ -0,0 +1,19 @@
+import { z } from 'zod';
+import { Entity, createRepository, encryptedPayloadSchema, timestamp } from '@/data/repository';
+
+// Only the owner reads these directly. Recipients are served by api/share.ts, which counts views.
+export const shareSchema = z.object({
+  userId: z.string(),
+  // Encrypted with the key in the link's fragment, which is never stored
+  payload: encryptedPayloadSchema,
+  // SHA-256 of the key, so the server can turn away an incomplete link without spending a view
+  keyHash: z.string(),
+  maxViews: z.number(),
+  views: z.number(),
+  expiresAt: timestamp,
+  createdAt: timestamp,
+});
+
+export type Share = Entity<typeof shareSchema>;
+
+export const sharesRepository = createRepository({ name: 'shares', label: 'share links', schema: shareSchema });
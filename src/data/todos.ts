@@ -0,0 +1,17 @@
+import { z } from 'zod';
+import { Entity, createRepository, timestamp } from '@/data/repository';
+
+export const todoSchema = z.object({
+  userId: z.string(),
+  text: z.string(),
+  completed: z.boolean().default(false),
+  category: z.string(),
+  // yyyy-MM-dd; stored as null when the task has no due date
+  dueDate: z.string().nullish(),
+  order: z.number().default(0),
+  createdAt: timestamp,
+});
+
+export type Todo = Entity<typeof todoSchema>;
+
+export const todosRepository = createRepository({ name: 'todos', label: 'tasks', schema: todoSchema });
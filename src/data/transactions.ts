@@ -0,0 +1,22 @@
+import { z } from 'zod';
+import { Entity, createRepository, timestamp } from '@/data/repository';
+
+export const transactionSchema = z.object({
+  userId: z.string(),
+  description: z.string(),
+  amount: z.number(),
+  type: z.enum(['income', 'expense']),
+  category: z.string(),
+  // yyyy-MM-dd
+  date: z.string(),
+  proofUrl: z.string().optional(),
+  createdAt: timestamp,
+});
+
+export type Transaction = Entity<typeof transactionSchema>;
+
+export const transactionsRepository = createRepository({
+  name: 'transactions',
+  label: 'transactions',
+  schema: transactionSchema,
+});
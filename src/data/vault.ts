@@ -0,0 +1,19 @@
+import { z } from 'zod';
+import { Entity, createRepository, encryptedPayloadSchema, timestamp } from '@/data/repository';
+
+export const vaultItemSchema = z.object({
+  userId: z.string(),
+  name: z.string(),
+  type: z.enum(['card', 'document', 'photo', 'video', 'other']),
+  url: z.string(),
+  thumbnail: z.string().optional(),
+  metadata: z.record(z.string()).optional(),
+  // Encrypted with the master key; only the last four digits are kept in the clear
+  cardNumber: encryptedPayloadSchema.optional(),
+  cardLast4: z.string().optional(),
+  createdAt: timestamp,
+});
+
+export type VaultItem = Entity<typeof vaultItemSchema>;
+
+export const vaultRepository = createRepository({ name: 'vault', label: 'vault items', schema: vaultItemSchema });
@@ -0,0 +1,39 @@
+import { useEffect, useState } from "react";
+import { limit, onSnapshot, orderBy, query } from "firebase/firestore";
+import { activityRepository } from "@/data/activity";
+import { parseSnapshot, reportMalformedDocs } from "@/data/repository";
+import { ActivityEvent, decryptActivityDoc } from "@/lib/activityLog";
+import { useAuthStore } from "@/stores/authStore";
+
+export function useActivityLog(max = 10) {
+  const { user, masterKey } = useAuthStore();
+  const [events, setEvents] = useState<ActivityEvent[]>([]);
+
+  useEffect(() => {
+    if (!user || !masterKey) {
+      setEvents([]);
+      return;
+    }
+
+    let latestSnapshot = 0;
+    // Only the newest events are fetched and decrypted; the log itself keeps growing
+    const q = query(activityRepository.ownedBy(user.uid), orderBy("createdAt", "desc"), limit(max));
+    const unsubscribe = onSnapshot(q, async (snapshot) => {
+      const snapshotId = ++latestSnapshot;
+      const { items, malformed } = parseSnapshot(snapshot);
+      reportMalformedDocs(activityRepository.label, malformed);
+      const results = await Promise.allSettled(items.map((data) => decryptActivityDoc(masterKey, data)));
+      if (snapshotId !== latestSnapshot) return;
+
+      setEvents(
+        results
+          .filter((result): result is PromiseFulfilledResult<ActivityEvent> => result.status === "fulfilled")
+          .map((result) => result.value)
+      );
+    });
+
+    return () => unsubscribe();
+  }, [user, masterKey, max]);
+
+  return events;
+}
@@ -0,0 +1,41 @@
+import { useEffect } from "react";
+import { useAuthStore } from "@/stores/authStore";
+import { useSettingsStore } from "@/stores/settingsStore";
+
+const ACTIVITY_EVENTS = ["mousemove", "mousedown", "keydown", "scroll", "touchstart"] as const;
+
+export function useAutoLock() {
+  const { locked, lock } = useAuthStore();
+  const { autoLockMinutes, lockOnHidden } = useSettingsStore((state) => state.settings);
+
+  useEffect(() => {
+    if (locked || autoLockMinutes <= 0) return;
+
+    let timer: number;
+    const resetTimer = () => {
+      window.clearTimeout(timer);
+      timer = window.setTimeout(lock, autoLockMinutes * 60 * 1000);
+    };
+
+    resetTimer();
+    ACTIVITY_EVENTS.forEach((event) => window.addEventListener(event, resetTimer, { passive: true }));
+
+    return () => {
+      window.clearTimeout(timer);
+      ACTIVITY_EVENTS.forEach((event) => window.removeEventListener(event, resetTimer));
+    };
+  }, [locked, autoLockMinutes, lock]);
+
+  useEffect(() => {
+    if (locked || !lockOnHidden) return;
+
+    const onVisibilityChange = () => {
+      if (document.visibilityState === "hidden") {
+        lock();
+      }
+    };
+
+    document.addEventListener("visibilitychange", onVisibilityChange);
+    return () => document.removeEventListener("visibilitychange", onVisibilityChange);
+  }, [locked, lockOnHidden, lock]);
+}
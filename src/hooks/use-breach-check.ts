@@ -0,0 +1,45 @@
+import { useEffect, useState } from "react";
+import { getBreachCount } from "@/lib/breachCheck";
+import { Password } from "@/lib/passwords";
+import { useBreachStore } from "@/stores/breachStore";
+import { useSettingsStore } from "@/stores/settingsStore";
+
+export function useBreachCheck(passwords: Password[]) {
+  const { provider } = useBreachStore();
+  const enabled = useSettingsStore((state) => state.settings.breachCheckEnabled);
+  const [breaches, setBreaches] = useState<Map<string, number>>(new Map());
+  const [checking, setChecking] = useState(false);
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    // Keys and tokens are not passwords and have no business in a breach lookup
+    const logins = passwords.filter((pw) => (pw.kind ?? "login") === "login");
+    if (!enabled || logins.length === 0) {
+      setBreaches(new Map());
+      return;
+    }
+
+    let cancelled = false;
+    setChecking(true);
+    Promise.allSettled(logins.map((pw) => getBreachCount(pw.password, provider))).then((results) => {
+      if (cancelled) return;
+
+      const next = new Map<string, number>();
+      results.forEach((result, index) => {
+        if (result.status === "fulfilled" && result.value > 0) {
+          next.set(logins[index].id, result.value);
+        }
+      });
+      setBreaches(next);
+      setFailed(results.some((result) => result.status === "rejected"));
+      setChecking(false);
+    });
+
+    return () => {
+      cancelled = true;
+      setChecking(false);
+    };
+  }, [passwords, provider, enabled]);
+
+  return { breaches, checking, failed };
+}
@@ -0,0 +1,44 @@
+import { useEffect, useState } from "react";
+import { FirestoreError, onSnapshot } from "firebase/firestore";
+import { toast } from "sonner";
+import { z } from "zod";
+import { Entity, Repository, parseSnapshot, reportMalformedDocs } from "@/data/repository";
+import { useAuthStore } from "@/stores/authStore";
+
+// Live list of the signed-in user's documents in a repository's collection
+export function useCollection<S extends z.AnyZodObject>(repository: Repository<S>) {
+  const { user } = useAuthStore();
+  const [items, setItems] = useState<Entity<S>[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<FirestoreError | null>(null);
+
+  useEffect(() => {
+    if (!user) {
+      setItems([]);
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+    const unsubscribe = onSnapshot(
+      repository.ownedBy(user.uid),
+      (snapshot) => {
+        const { items: parsed, malformed } = parseSnapshot(snapshot);
+        reportMalformedDocs(repository.label, malformed);
+        setItems(parsed);
+        setError(null);
+        setLoading(false);
+      },
+      // A refused listener never fires again, so loading has to end here too
+      (snapshotError) => {
+        setError(snapshotError);
+        setLoading(false);
+        toast.error(`Your ${repository.label} could not be loaded`, { id: `load-${repository.label}` });
+      }
+    );
+
+    return () => unsubscribe();
+  }, [user, repository]);
+
+  return { items, loading, error };
+}
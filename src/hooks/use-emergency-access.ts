@@ -0,0 +1,65 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { QuerySnapshot, onSnapshot } from "firebase/firestore";
+import { format } from "date-fns";
+import { EmergencyGrant, emergencyAccessRepository } from "@/data/emergencyAccess";
+import { parseSnapshot, reportMalformedDocs } from "@/data/repository";
+import { getAccessAvailableAt, syncEmergencyAccess } from "@/lib/emergencyAccess";
+import { useAuthStore } from "@/stores/authStore";
+import { toast } from "sonner";
+
+export function useEmergencyGrants() {
+  const { user } = useAuthStore();
+  const [owned, setOwned] = useState<EmergencyGrant[]>([]);
+  const [shared, setShared] = useState<EmergencyGrant[]>([]);
+
+  useEffect(() => {
+    if (!user) return;
+
+    const toGrants = (snapshot: QuerySnapshot<EmergencyGrant>) => {
+      const { items, malformed } = parseSnapshot(snapshot);
+      reportMalformedDocs(emergencyAccessRepository.label, malformed);
+      return items.sort((a, b) => (b.createdAt?.getTime() || 0) - (a.createdAt?.getTime() || 0));
+    };
+
+    const unsubscribeOwned = onSnapshot(emergencyAccessRepository.ownedBy(user.uid), (snapshot) =>
+      setOwned(toGrants(snapshot))
+    );
+    const unsubscribeShared = onSnapshot(
+      emergencyAccessRepository.findBy("contactEmail", user.email?.toLowerCase() ?? ""),
+      (snapshot) => setShared(toGrants(snapshot))
+    );
+
+    return () => {
+      unsubscribeOwned();
+      unsubscribeShared();
+    };
+  }, [user]);
+
+  return { owned, shared };
+}
+
+// Keeps trusted contacts' copies current and warns the owner about pending requests on every unlock
+export function useEmergencyAccessSync() {
+  const { user, masterKey } = useAuthStore();
+  const navigate = useNavigate();
+
+  useEffect(() => {
+    if (!user || !masterKey) return;
+
+    syncEmergencyAccess(user.uid, masterKey)
+      .then((grants) => {
+        grants
+          .filter((grant) => grant.status === "requested")
+          .forEach((grant) => {
+            const availableAt = getAccessAvailableAt(grant);
+            toast.warning(`${grant.contactEmail} requested emergency access`, {
+              description: availableAt ? `Access opens ${format(availableAt, "PPp")} unless you deny it.` : undefined,
+              duration: Infinity,
+              action: { label: "Review", onClick: () => navigate("/emergency-access") },
+            });
+          });
+      })
+      .catch(() => toast.error("Failed to update emergency access"));
+  }, [user, masterKey, navigate]);
+}
@@ -0,0 +1,51 @@
+import { useEffect, useState } from "react";
+import { onSnapshot } from "firebase/firestore";
+import { toast } from "sonner";
+import { passwordsRepository } from "@/data/passwords";
+import { parseSnapshot, reportMalformedDocs } from "@/data/repository";
+import { Password, decryptPasswordDoc } from "@/lib/passwords";
+import { useAuthStore } from "@/stores/authStore";
+
+export function usePasswords() {
+  const { user, masterKey } = useAuthStore();
+  const [passwords, setPasswords] = useState<Password[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!user || !masterKey) {
+      setPasswords([]);
+      return;
+    }
+
+    let latestSnapshot = 0;
+    setLoading(true);
+    const unsubscribe = onSnapshot(passwordsRepository.ownedBy(user.uid), async (snapshot) => {
+      const snapshotId = ++latestSnapshot;
+      const { items, malformed } = parseSnapshot(snapshot);
+      reportMalformedDocs(passwordsRepository.label, malformed);
+      const results = await Promise.allSettled(items.map((data) => decryptPasswordDoc(masterKey, data)));
+
+      if (snapshotId !== latestSnapshot) return;
+
+      const passwordsData = results
+        .filter((result): result is PromiseFulfilledResult<Password> => result.status === "fulfilled")
+        .map((result) => result.value);
+      if (passwordsData.length < results.length) {
+        toast.error(`${results.length - passwordsData.length} entries could not be decrypted`);
+      }
+      setPasswords(passwordsData.sort((a, b) => (b.createdAt?.getTime() || 0) - (a.createdAt?.getTime() || 0)));
+      setLoading(false);
+    }, () => {
+      latestSnapshot++;
+      setLoading(false);
+      toast.error("Your passwords could not be loaded", { id: "load-passwords" });
+    });
+
+    return () => {
+      latestSnapshot++;
+      unsubscribe();
+    };
+  }, [user, masterKey]);
+
+  return { passwords, loading };
+}
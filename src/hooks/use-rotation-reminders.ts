@@ -0,0 +1,41 @@
+import { useEffect } from "react";
+import { useNavigate } from "react-router-dom";
+import { getPasswordEntries } from "@/lib/passwords";
+import { getDueForRotation } from "@/lib/passwordRotation";
+import { useAuthStore } from "@/stores/authStore";
+import { useSettingsStore } from "@/stores/settingsStore";
+import { toast } from "sonner";
+
+// Reminds the user once per unlock about entries that are overdue or due within a week
+export function useRotationReminders() {
+  const { user, masterKey } = useAuthStore();
+  const settingsLoaded = useSettingsStore((state) => !!user && state.userId === user.uid);
+  const navigate = useNavigate();
+
+  useEffect(() => {
+    if (!user || !masterKey || !settingsLoaded) return;
+
+    let cancelled = false;
+    getPasswordEntries(user.uid, masterKey)
+      .then((passwords) => {
+        const { rotationPolicies } = useSettingsStore.getState().settings;
+        const due = getDueForRotation(passwords, rotationPolicies);
+        if (cancelled || due.length === 0) return;
+
+        const overdue = due.filter((item) => item.daysLeft < 0).length;
+        toast.warning(`${due.length} password${due.length === 1 ? "" : "s"} due for rotation`, {
+          id: "rotation-reminder",
+          description: overdue > 0 ? `${overdue} already overdue` : due.map((item) => item.password.title).slice(0, 3).join(", "),
+          duration: 10000,
+          action: { label: "Review", onClick: () => navigate("/passwords/audit") },
+        });
+      })
+      .catch(() => {
+        // Reminders are best effort; the audit page shows the same list
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [user, masterKey, settingsLoaded, navigate]);
+}
@@ -0,0 +1,46 @@
+import { useEffect } from "react";
+import { onSnapshot } from "firebase/firestore";
+import { sessionsRepository } from "@/data/sessions";
+import { LAST_SEEN_INTERVAL_MS, signOutRevokedSession, touchSession } from "@/lib/sessions";
+import { useAuthStore } from "@/stores/authStore";
+
+// Signs this browser out as soon as its session is revoked elsewhere, and keeps last-seen fresh
+export function useSessionGuard() {
+  const { sessionId } = useAuthStore();
+
+  useEffect(() => {
+    if (!sessionId) return;
+
+    const unsubscribe = onSnapshot(sessionsRepository.ref(sessionId), (snapshot) => {
+      if (snapshot.data()?.revoked) {
+        signOutRevokedSession(sessionId);
+      }
+    });
+
+    return () => unsubscribe();
+  }, [sessionId]);
+
+  useEffect(() => {
+    if (!sessionId) return;
+
+    let lastSeen = Date.now();
+    const touch = () => {
+      if (document.visibilityState !== "visible") return;
+      lastSeen = Date.now();
+      touchSession(sessionId).catch(() => undefined);
+    };
+    const onVisibilityChange = () => {
+      if (Date.now() - lastSeen >= LAST_SEEN_INTERVAL_MS) {
+        touch();
+      }
+    };
+
+    const timer = window.setInterval(touch, LAST_SEEN_INTERVAL_MS);
+    document.addEventListener("visibilitychange", onVisibilityChange);
+
+    return () => {
+      window.clearInterval(timer);
+      document.removeEventListener("visibilitychange", onVisibilityChange);
+    };
+  }, [sessionId]);
+}
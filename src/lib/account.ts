@@ -0,0 +1,99 @@
+import { User, deleteUser } from 'firebase/auth';
+import { DocumentReference, collection, doc, getDocs, query, where, writeBatch } from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import { CloudinaryAsset, deleteFromCloudinary, parseCloudinaryUrl } from '@/lib/cloudinary';
+import { deletePasswordsInBatches } from '@/lib/passwords';
+
+const BATCH_SIZE = 400;
+
+// Every top-level collection holding documents that belong to a single user, keyed by owner field
+const ownedCollections: { name: string; ownerField: string }[] = [
+  { name: 'notes', ownerField: 'userId' },
+  { name: 'todos', ownerField: 'userId' },
+  { name: 'vault', ownerField: 'userId' },
+  { name: 'expenses', ownerField: 'userId' },
+  { name: 'transactions', ownerField: 'userId' },
+  { name: 'activity', ownerField: 'userId' },
+  { name: 'shares', ownerField: 'userId' },
+  { name: 'mfaRecovery', ownerField: 'ownerId' },
+  { name: 'sessions', ownerField: 'userId' },
+];
+
+// Fields that hold Cloudinary URLs in each collection
+const uploadFields: Record<string, string[]> = {
+  vault: ['url', 'thumbnail'],
+  expenses: ['proofUrl'],
+  transactions: ['proofUrl'],
+};
+
+export interface DeleteAccountResult {
+  // Uploads from before files were stored per user, which the server cannot prove belong to them
+  skippedUploads: number;
+}
+
+function getOwnedDocs(name: string, ownerField: string, userId: string) {
+  return getDocs(query(collection(db, name), where(ownerField, '==', userId)));
+}
+
+async function deleteRefsInBatches(refs: DocumentReference[]): Promise<void> {
+  for (let start = 0; start < refs.length; start += BATCH_SIZE) {
+    const batch = writeBatch(db);
+    refs.slice(start, start + BATCH_SIZE).forEach((ref) => batch.delete(ref));
+    await batch.commit();
+  }
+}
+
+async function getUploads(userId: string): Promise<CloudinaryAsset[]> {
+  const assets = new Map<string, CloudinaryAsset>();
+
+  for (const [name, fields] of Object.entries(uploadFields)) {
+    const snapshot = await getOwnedDocs(name, 'userId', userId);
+    snapshot.docs.forEach((snapshotDoc) => {
+      fields.forEach((field) => {
+        const url = snapshotDoc.data()[field];
+        const asset = typeof url === 'string' ? parseCloudinaryUrl(url) : null;
+        if (asset) {
+          assets.set(asset.publicId, asset);
+        }
+      });
+    });
+  }
+
+  return [...assets.values()];
+}
+
+// Uploads go first: once the documents are gone nothing records which files were the user's.
+// The auth account goes last so a failure part way through can be retried.
+export async function deleteAccount(user: User): Promise<DeleteAccountResult> {
+  const uploads = await getUploads(user.uid);
+  let skippedUploads = 0;
+  if (uploads.length > 0) {
+    const result = await deleteFromCloudinary(uploads, await user.getIdToken());
+    skippedUploads = result.skipped.length;
+  }
+
+  const passwords = await getOwnedDocs('passwords', 'userId', user.uid);
+  await deletePasswordsInBatches(passwords.docs.map((passwordDoc) => passwordDoc.id));
+
+  const refs: DocumentReference[] = [];
+
+  const grants = await getOwnedDocs('emergencyAccess', 'ownerId', user.uid);
+  grants.docs.forEach((grantDoc) => {
+    refs.push(
+      doc(db, 'emergencyAccess', grantDoc.id, 'copy', 'current'),
+      doc(db, 'emergencyAccess', grantDoc.id, 'keys', 'contact'),
+      grantDoc.ref
+    );
+  });
+
+  for (const { name, ownerField } of ownedCollections) {
+    const snapshot = await getOwnedDocs(name, ownerField, user.uid);
+    refs.push(...snapshot.docs.map((snapshotDoc) => snapshotDoc.ref));
+  }
+
+  refs.push(doc(db, 'vaultKeys', user.uid), doc(db, 'settings', user.uid));
+  await deleteRefsInBatches(refs);
+
+  await deleteUser(user);
+  return { skippedUploads };
+}
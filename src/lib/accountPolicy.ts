@@ -0,0 +1,10 @@
+import { z } from 'zod';
+import { estimateStrength } from '@/lib/passwordStrength';
+
+export const MIN_ACCOUNT_PASSWORD_LENGTH = 10;
+
+// New account passwords need some length and a strength estimate of at least "good"
+export const accountPasswordSchema = z
+  .string()
+  .min(MIN_ACCOUNT_PASSWORD_LENGTH, `Password must be at least ${MIN_ACCOUNT_PASSWORD_LENGTH} characters`)
+  .refine((value) => estimateStrength(value).score >= 3, 'Choose a stronger password. Try a longer passphrase.');
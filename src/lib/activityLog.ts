@@ -0,0 +1,33 @@
+import { StoredActivity, activityRepository } from '@/data/activity';
+import { decryptJson, encryptJson } from '@/lib/crypto';
+
+export type ActivityType = StoredActivity['type'];
+
+export interface ActivityEvent {
+  id: string;
+  type: ActivityType;
+  description: string;
+  createdAt: Date;
+}
+
+// Only a description is recorded, never the copied value itself. It names the entry, so it is
+// encrypted with the master key like the entry titles are.
+export async function logActivity(userId: string, key: CryptoKey, type: ActivityType, description: string): Promise<void> {
+  await activityRepository.add({
+    userId,
+    type,
+    encrypted: await encryptJson<{ description: string }>(key, { description }),
+    createdAt: new Date(),
+  });
+}
+
+export async function decryptActivityDoc(key: CryptoKey, data: StoredActivity): Promise<ActivityEvent> {
+  const { description } = await decryptJson<{ description: string }>(key, data.encrypted);
+
+  return {
+    id: data.id,
+    type: data.type,
+    description,
+    createdAt: data.createdAt,
+  };
+}
@@ -0,0 +1,129 @@
+import {
+  AuthCredential,
+  AuthProvider,
+  GithubAuthProvider,
+  GoogleAuthProvider,
+  OAuthProvider,
+  User,
+  UserCredential,
+  isSignInWithEmailLink,
+  linkWithCredential,
+  linkWithPopup,
+  reauthenticateWithPopup,
+  sendSignInLinkToEmail,
+  signInWithEmailLink,
+  signInWithPopup,
+  unlink,
+} from 'firebase/auth';
+import { FirebaseError } from 'firebase/app';
+import { auth } from '@/lib/firebase';
+import { DEFAULT_RETURN_PATH, buildAuthPath } from '@/lib/returnTo';
+
+export type SocialProviderId = 'google.com' | 'github.com';
+
+export const socialProviderNames: Record<SocialProviderId, string> = {
+  'google.com': 'Google',
+  'github.com': 'GitHub',
+};
+
+export const providerNames: Record<string, string> = {
+  ...socialProviderNames,
+  password: 'Email and password',
+};
+
+// The email is kept so the link can be completed without asking again on the same device
+const EMAIL_FOR_SIGN_IN_KEY = 'emailForSignIn';
+
+function createProvider(id: SocialProviderId): AuthProvider {
+  if (id === 'github.com') {
+    return new GithubAuthProvider();
+  }
+  const provider = new GoogleAuthProvider();
+  provider.setCustomParameters({ prompt: 'select_account' });
+  return provider;
+}
+
+export function signInWithSocial(id: SocialProviderId): Promise<UserCredential> {
+  return signInWithPopup(auth, createProvider(id));
+}
+
+export function linkSocialProvider(user: User, id: SocialProviderId): Promise<UserCredential> {
+  return linkWithPopup(user, createProvider(id));
+}
+
+export function reauthenticateWithSocial(user: User, id: SocialProviderId): Promise<UserCredential> {
+  return reauthenticateWithPopup(user, createProvider(id));
+}
+
+export async function unlinkProvider(user: User, providerId: string): Promise<void> {
+  if (user.providerData.length <= 1) {
+    throw new Error('You need at least one way to sign in');
+  }
+  await unlink(user, providerId);
+}
+
+export function getLinkedProviders(user: User): string[] {
+  return user.providerData.map((info) => info.providerId);
+}
+
+export function getSocialProviders(user: User): SocialProviderId[] {
+  return getLinkedProviders(user).filter((id): id is SocialProviderId => id in socialProviderNames);
+}
+
+export async function sendEmailSignInLink(email: string, returnPath = DEFAULT_RETURN_PATH): Promise<void> {
+  await sendSignInLinkToEmail(auth, email, {
+    url: `${window.location.origin}${buildAuthPath(returnPath)}`,
+    handleCodeInApp: true,
+  });
+  window.localStorage.setItem(EMAIL_FOR_SIGN_IN_KEY, email);
+}
+
+export function isEmailSignInLink(url: string): boolean {
+  return isSignInWithEmailLink(auth, url);
+}
+
+export function getStoredSignInEmail(): string | null {
+  return window.localStorage.getItem(EMAIL_FOR_SIGN_IN_KEY);
+}
+
+export function clearStoredSignInEmail(): void {
+  window.localStorage.removeItem(EMAIL_FOR_SIGN_IN_KEY);
+}
+
+export async function completeEmailLinkSignIn(email: string, url: string): Promise<UserCredential> {
+  const credential = await signInWithEmailLink(auth, email, url);
+  clearStoredSignInEmail();
+  return credential;
+}
+
+export interface PendingLink {
+  email?: string;
+  providerName: string;
+  credential: AuthCredential;
+}
+
+// Firebase refuses a provider sign-in when the email already belongs to another sign-in method.
+// The rejected credential is kept so it can be linked once the user signs in the usual way.
+export function getPendingLink(error: unknown): PendingLink | null {
+  if (!(error instanceof FirebaseError) || error.code !== 'auth/account-exists-with-different-credential') {
+    return null;
+  }
+
+  const credential = OAuthProvider.credentialFromError(error);
+  if (!credential) return null;
+
+  return {
+    email: error.customData?.email as string | undefined,
+    providerName: socialProviderNames[credential.providerId as SocialProviderId] ?? credential.providerId,
+    credential,
+  };
+}
+
+export function completePendingLink(user: User, pending: PendingLink): Promise<UserCredential> {
+  return linkWithCredential(user, pending.credential);
+}
+
+// Password accounts must confirm their email. Provider and email-link sign-ins already prove ownership.
+export function needsEmailVerification(user: User): boolean {
+  return !user.emailVerified && getLinkedProviders(user).includes('password');
+}
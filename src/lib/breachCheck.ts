@@ -0,0 +1,95 @@
+export interface RangeProvider {
+  name: string;
+  offline: boolean;
+  getRange: (prefix: string) => Promise<string>;
+}
+
+export const HIBP_RANGE_ENDPOINT = 'https://api.pwnedpasswords.com/range/';
+
+export function createHibpRangeProvider(endpoint = HIBP_RANGE_ENDPOINT): RangeProvider {
+  return {
+    name: 'Have I Been Pwned',
+    offline: false,
+    getRange: async (prefix) => {
+      const response = await fetch(`${endpoint}${prefix}`, {
+        headers: { 'Add-Padding': 'true' },
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to check breached passwords');
+      }
+
+      return response.text();
+    },
+  };
+}
+
+// Range files are named after their 5-character prefix (e.g. "21BD1.txt") and use the
+// same "SUFFIX:COUNT" line format as the HIBP API, so a downloaded corpus can be used as-is.
+export function createLocalRangeProvider(ranges: Record<string, string>): RangeProvider {
+  const normalized = Object.fromEntries(
+    Object.entries(ranges).map(([prefix, body]) => [prefix.toUpperCase(), body])
+  );
+
+  return {
+    name: 'Local range files',
+    offline: true,
+    getRange: async (prefix) => normalized[prefix] ?? '',
+  };
+}
+
+export async function readRangeFiles(files: Iterable<File>): Promise<Record<string, string>> {
+  const ranges: Record<string, string> = {};
+  for (const file of files) {
+    const prefix = file.name.replace(/\.txt$/i, '').toUpperCase();
+    if (/^[0-9A-F]{5}$/.test(prefix)) {
+      ranges[prefix] = await file.text();
+    }
+  }
+  return ranges;
+}
+
+const rangeCache = new WeakMap<RangeProvider, Map<string, Promise<Map<string, number>>>>();
+
+export async function sha1Hex(value: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-1', new TextEncoder().encode(value));
+  return [...new Uint8Array(digest)]
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('')
+    .toUpperCase();
+}
+
+function parseRange(body: string): Map<string, number> {
+  const suffixes = new Map<string, number>();
+  body.split(/\r?\n/).forEach((line) => {
+    const [suffix, count] = line.trim().split(':');
+    // Padding entries returned by the API carry a count of zero
+    if (suffix && Number(count) > 0) {
+      suffixes.set(suffix.toUpperCase(), Number(count));
+    }
+  });
+  return suffixes;
+}
+
+function getRange(provider: RangeProvider, prefix: string): Promise<Map<string, number>> {
+  let cache = rangeCache.get(provider);
+  if (!cache) {
+    cache = new Map();
+    rangeCache.set(provider, cache);
+  }
+
+  let range = cache.get(prefix);
+  if (!range) {
+    range = provider.getRange(prefix).then(parseRange);
+    range.catch(() => cache!.delete(prefix));
+    cache.set(prefix, range);
+  }
+  return range;
+}
+
+// Only the first 5 hex characters of the SHA-1 hash are handed to the provider
+export async function getBreachCount(password: string, provider: RangeProvider): Promise<number> {
+  const hash = await sha1Hex(password);
+  const range = await getRange(provider, hash.slice(0, 5));
+  return range.get(hash.slice(5)) ?? 0;
+}
@@ -0,0 +1,111 @@
+import { toast } from 'sonner';
+import { logActivity } from '@/lib/activityLog';
+import { useAuthStore } from '@/stores/authStore';
+import { useSettingsStore } from '@/stores/settingsStore';
+
+interface CopyOptions {
+  // Shown in the toast, e.g. "Password"
+  label: string;
+  // The entry the value belongs to, used in the activity log
+  source?: string;
+}
+
+interface PendingClear {
+  value: string;
+  interval: number;
+}
+
+const TOAST_ID = 'clipboard';
+
+let pending: PendingClear | null = null;
+
+function whenFocused(): Promise<void> {
+  // Browsers only allow clipboard reads from a focused document
+  if (document.hasFocus()) return Promise.resolve();
+  return new Promise((resolve) => window.addEventListener('focus', () => resolve(), { once: true }));
+}
+
+// Resolves to false when the user has since copied something else, and null when the
+// clipboard cannot be read at all.
+async function clearIfUnchanged(value: string): Promise<boolean | null> {
+  await whenFocused();
+  try {
+    if ((await navigator.clipboard.readText()) !== value) return false;
+    await navigator.clipboard.writeText('');
+    return true;
+  } catch {
+    return null;
+  }
+}
+
+async function finish(entry: PendingClear) {
+  window.clearInterval(entry.interval);
+  if (pending !== entry) return;
+  pending = null;
+
+  const cleared = await clearIfUnchanged(entry.value);
+  if (cleared) {
+    toast.success('Clipboard cleared', { id: TOAST_ID, description: undefined, action: undefined, duration: 2000 });
+  } else if (cleared === null) {
+    toast.warning('Clipboard could not be cleared', {
+      id: TOAST_ID,
+      description: 'Clear it manually once you are done.',
+      action: undefined,
+      duration: 5000,
+    });
+  } else {
+    toast.dismiss(TOAST_ID);
+  }
+}
+
+export async function copySecret(value: string, { label, source }: CopyOptions): Promise<void> {
+  try {
+    await navigator.clipboard.writeText(value);
+  } catch (error) {
+    toast.error('Failed to copy to clipboard');
+    return;
+  }
+
+  if (pending) {
+    window.clearInterval(pending.interval);
+    pending = null;
+  }
+
+  const { user, masterKey } = useAuthStore.getState();
+  if (user && masterKey) {
+    logActivity(user.uid, masterKey, 'copy', source ? `${label} copied for ${source}` : `${label} copied`).catch(() => {});
+  }
+
+  const seconds = useSettingsStore.getState().settings.clipboardClearSeconds;
+  if (seconds <= 0) {
+    toast.success(`${label} copied`, { id: TOAST_ID, description: undefined, action: undefined });
+    return;
+  }
+
+  let remaining = seconds;
+  let dismissed = false;
+  const entry: PendingClear = { value, interval: 0 };
+  const show = () => {
+    if (dismissed) return;
+    toast.success(`${label} copied`, {
+      id: TOAST_ID,
+      description: `Clipboard clears in ${remaining}s`,
+      duration: Infinity,
+      action: { label: 'Clear now', onClick: () => finish(entry) },
+      onDismiss: () => {
+        dismissed = true;
+      },
+    });
+  };
+
+  show();
+  entry.interval = window.setInterval(() => {
+    remaining -= 1;
+    if (remaining <= 0) {
+      finish(entry);
+    } else {
+      show();
+    }
+  }, 1000);
+  pending = entry;
+}
@@ -12,11 +12,29 @@ interface CloudinaryUploadResult {
   height?: number;
 }
 
-export async function uploadToCloudinary(file: File): Promise<CloudinaryUploadResult> {
+export interface CloudinaryAsset {
+  publicId: string;
+  resourceType: string;
+}
+
+interface CloudinaryDestroyResult {
+  deleted: string[];
+  skipped: string[];
+}
+
+// Uploads go under users/<uid>/ so the delete endpoint can tell which assets a user owns
+export function getUserFolder(userId: string): string {
+  return `users/${userId}`;
+}
+
+export async function uploadToCloudinary(file: File, folder?: string): Promise<CloudinaryUploadResult> {
   const formData = new FormData();
   formData.append('file', file);
   formData.append('upload_preset', UPLOAD_PRESET);
   formData.append('cloud_name', CLOUD_NAME);
+  if (folder) {
+    formData.append('folder', folder);
+  }
 
   const resourceType = file.type.startsWith('video/') ? 'video' : 'image';
 
@@ -52,3 +70,29 @@ export function getCloudinaryUrl(publicId: string, options?: {
   
   return `https://res.cloudinary.com/${CLOUD_NAME}/image/upload/${transformString}${publicId}`;
 }
+
+export function parseCloudinaryUrl(url: string): CloudinaryAsset | null {
+  const match = url.match(
+    new RegExp(`^https://res\\.cloudinary\\.com/${CLOUD_NAME}/(image|video)/upload/(?:v\\d+/)?(.+?)(?:\\.\\w+)?$`)
+  );
+  if (!match) return null;
+  return { resourceType: match[1], publicId: match[2] };
+}
+
+// Destroying an asset needs the API secret, so it goes through the server endpoint
+export async function deleteFromCloudinary(assets: CloudinaryAsset[], idToken: string): Promise<CloudinaryDestroyResult> {
+  const response = await fetch('/api/cloudinary-destroy', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${idToken}`,
+    },
+    body: JSON.stringify({ assets }),
+  });
+
+  if (!response.ok) {
+    throw new Error('Failed to delete from Cloudinary');
+  }
+
+  return response.json();
+}
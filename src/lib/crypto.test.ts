@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import {
+  createKeyDerivationParams,
+  decryptJson,
+  deriveKey,
+  deriveSharedKey,
+  encryptJson,
+  exportKey,
+  fromBase64,
+  generateKey,
+  generateKeyPair,
+  importKey,
+  importPrivateKey,
+  toBase64,
+} from '@/lib/crypto';
+
+const secret = { username: 'alice', password: 'correct horse battery staple', tags: ['a', 'b'] };
+
+describe('base64', () => {
+  it('round-trips every byte value', () => {
+    const bytes = Uint8Array.from({ length: 256 }, (_, i) => i);
+    expect(fromBase64(toBase64(bytes))).toEqual(bytes);
+  });
+});
+
+describe('encryptJson and decryptJson', () => {
+  it('round-trips with a key derived from a passphrase', async () => {
+    const params = createKeyDerivationParams();
+    const payload = await encryptJson(await deriveKey('passphrase', params), secret);
+
+    expect(payload.ciphertext).not.toContain('alice');
+    expect(await decryptJson(await deriveKey('passphrase', params), payload)).toEqual(secret);
+  });
+
+  it('uses a fresh IV for every encryption', async () => {
+    const key = await generateKey();
+    const [first, second] = await Promise.all([encryptJson(key, secret), encryptJson(key, secret)]);
+    expect(first.iv).not.toBe(second.iv);
+    expect(first.ciphertext).not.toBe(second.ciphertext);
+  });
+
+  it('fails with the wrong passphrase', async () => {
+    const params = createKeyDerivationParams();
+    const payload = await encryptJson(await deriveKey('passphrase', params), secret);
+    await expect(decryptJson(await deriveKey('wrong', params), payload)).rejects.toThrow();
+  });
+
+  it('fails when the ciphertext has been tampered with', async () => {
+    const key = await generateKey();
+    const payload = await encryptJson(key, secret);
+    const bytes = fromBase64(payload.ciphertext);
+    bytes[0] ^= 1;
+    await expect(decryptJson(key, { ...payload, ciphertext: toBase64(bytes) })).rejects.toThrow();
+  });
+});
+
+describe('exportKey and importKey', () => {
+  it('round-trips a random key through URL-safe text', async () => {
+    const key = await generateKey();
+    const encoded = await exportKey(key);
+
+    expect(encoded).toMatch(/^[A-Za-z0-9_-]+$/);
+    expect(await decryptJson(await importKey(encoded), await encryptJson(key, secret))).toEqual(secret);
+  });
+});
+
+describe('deriveSharedKey', () => {
+  it('gives both sides of the exchange the same key', async () => {
+    const [owner, contact] = await Promise.all([generateKeyPair(), generateKeyPair()]);
+    const [ownerPrivate, ownerPublic, contactPrivate, contactPublic] = await Promise.all([
+      crypto.subtle.exportKey('jwk', owner.privateKey),
+      crypto.subtle.exportKey('jwk', owner.publicKey),
+      crypto.subtle.exportKey('jwk', contact.privateKey),
+      crypto.subtle.exportKey('jwk', contact.publicKey),
+    ]);
+
+    const ownerKey = await deriveSharedKey(await importPrivateKey(ownerPrivate), contactPublic);
+    const contactKey = await deriveSharedKey(await importPrivateKey(contactPrivate), ownerPublic);
+    expect(await decryptJson(contactKey, await encryptJson(ownerKey, secret))).toEqual(secret);
+  });
+});
@@ -0,0 +1,129 @@
+const PBKDF2_ITERATIONS = 310000;
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+
+export interface EncryptedPayload {
+  iv: string;
+  ciphertext: string;
+}
+
+export interface KeyDerivationParams {
+  salt: string;
+  iterations: number;
+}
+
+export function randomBytes(length: number): Uint8Array {
+  const bytes = new Uint8Array(length);
+  crypto.getRandomValues(bytes);
+  return bytes;
+}
+
+export function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+}
+
+export function fromBase64(value: string): Uint8Array {
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+export function createKeyDerivationParams(): KeyDerivationParams {
+  return {
+    salt: toBase64(randomBytes(SALT_BYTES)),
+    iterations: PBKDF2_ITERATIONS,
+  };
+}
+
+export async function deriveKey(secret: string, params: KeyDerivationParams): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    'PBKDF2',
+    false,
+    ['deriveKey']
+  );
+
+  return crypto.subtle.deriveKey(
+    {
+      name: 'PBKDF2',
+      salt: fromBase64(params.salt),
+      iterations: params.iterations,
+      hash: 'SHA-256',
+    },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+export async function encryptJson<T>(key: CryptoKey, value: T): Promise<EncryptedPayload> {
+  const iv = randomBytes(IV_BYTES);
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    key,
+    new TextEncoder().encode(JSON.stringify(value))
+  );
+
+  return {
+    iv: toBase64(iv),
+    ciphertext: toBase64(new Uint8Array(ciphertext)),
+  };
+}
+
+export async function decryptJson<T>(key: CryptoKey, payload: EncryptedPayload): Promise<T> {
+  const plaintext = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: fromBase64(payload.iv) },
+    key,
+    fromBase64(payload.ciphertext)
+  );
+
+  return JSON.parse(new TextDecoder().decode(plaintext)) as T;
+}
+
+// Random keys are extractable so they can travel outside the app, e.g. in a URL fragment
+export function generateKey(): Promise<CryptoKey> {
+  return crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, ['encrypt', 'decrypt']);
+}
+
+export async function exportKey(key: CryptoKey): Promise<string> {
+  const raw = new Uint8Array(await crypto.subtle.exportKey('raw', key));
+  return toBase64(raw).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+export function importKey(encoded: string, usages: KeyUsage[] = ['decrypt']): Promise<CryptoKey> {
+  const base64 = encoded.replace(/-/g, '+').replace(/_/g, '/');
+  const raw = fromBase64(base64.padEnd(Math.ceil(base64.length / 4) * 4, '='));
+  return crypto.subtle.importKey('raw', raw, 'AES-GCM', false, usages);
+}
+
+const ECDH_PARAMS: EcKeyImportParams = { name: 'ECDH', namedCurve: 'P-256' };
+
+export function generateKeyPair(): Promise<CryptoKeyPair> {
+  return crypto.subtle.generateKey(ECDH_PARAMS, true, ['deriveKey']);
+}
+
+export function importPrivateKey(jwk: JsonWebKey): Promise<CryptoKey> {
+  return crypto.subtle.importKey('jwk', jwk, ECDH_PARAMS, false, ['deriveKey']);
+}
+
+// Both sides of an ECDH exchange arrive at the same AES key from their own private key
+// and the other side's public key.
+export async function deriveSharedKey(privateKey: CryptoKey, publicKey: JsonWebKey): Promise<CryptoKey> {
+  const peer = await crypto.subtle.importKey('jwk', publicKey, ECDH_PARAMS, false, []);
+  return crypto.subtle.deriveKey(
+    { name: 'ECDH', public: peer },
+    privateKey,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
@@ -0,0 +1,75 @@
+import { parse } from 'tldts';
+import { Password } from '@/lib/passwords';
+
+const SCHEME_PATTERN = /^[a-z][a-z\d+.-]*:\/\//i;
+
+// Adds a scheme to bare hosts such as "example.com/login" so they can be opened and parsed
+export function normalizeWebsite(input: string): string {
+  const value = input.trim();
+  if (!value) return '';
+
+  try {
+    const url = new URL(SCHEME_PATTERN.test(value) ? value : `https://${value}`);
+    return url.pathname === '/' && !url.search && !url.hash ? url.origin : url.href;
+  } catch {
+    return value;
+  }
+}
+
+// Only web addresses are opened, so a stored "javascript:" URL can never run in the app's origin
+export function getOpenableUrl(website: string | undefined): string | null {
+  const normalized = normalizeWebsite(website ?? '');
+  return /^https?:\/\//i.test(normalized) ? normalized : null;
+}
+
+export function getHostname(website: string | undefined): string | null {
+  if (!website) return null;
+  try {
+    return new URL(normalizeWebsite(website)).hostname.toLowerCase();
+  } catch {
+    return null;
+  }
+}
+
+// Reduces a URL to the domain a site owner can register, so that "accounts.google.com"
+// and "mail.google.com" match while "alice.github.io" and "bob.github.io" do not.
+export function getRegistrableDomain(website: string | undefined): string | null {
+  const hostname = getHostname(website);
+  if (!hostname) return null;
+
+  const result = parse(hostname, { allowPrivateDomains: true });
+  if (result.isIp || !result.domain) return hostname;
+  return result.domain;
+}
+
+// Intranet hosts and IP addresses are never contacted, only hosts under a public suffix
+export function getFaviconUrl(website: string | undefined): string | null {
+  const hostname = getHostname(website);
+  if (!hostname) return null;
+
+  const result = parse(hostname);
+  return !result.isIp && result.isIcann ? `https://${hostname}/favicon.ico` : null;
+}
+
+export function matchesDomain(pw: Password, query: string): boolean {
+  const domain = getRegistrableDomain(pw.website);
+  if (!domain) return false;
+
+  const needle = query.trim().toLowerCase();
+  // A pasted URL matches on its registrable domain rather than as literal text
+  const queryDomain = /[./]/.test(needle) ? getRegistrableDomain(needle) : null;
+  return domain.includes(needle) || (!!queryDomain && domain === queryDomain);
+}
+
+// Entries that share a registrable domain and username are almost always the same account
+export function findDuplicateLogins(passwords: Password[]): Password[][] {
+  const groups = new Map<string, Password[]>();
+  passwords.forEach((pw) => {
+    const domain = getRegistrableDomain(pw.website);
+    if (!domain) return;
+
+    const key = `${domain}\n${pw.username.trim().toLowerCase()}`;
+    groups.set(key, [...(groups.get(key) ?? []), pw]);
+  });
+  return [...groups.values()].filter((group) => group.length > 1);
+}
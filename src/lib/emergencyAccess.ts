@@ -0,0 +1,226 @@
+import { deleteField, doc, getDoc, serverTimestamp, writeBatch } from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import {
+  decryptJson,
+  deriveSharedKey,
+  encryptJson,
+  exportKey,
+  generateKey,
+  generateKeyPair,
+  importKey,
+} from '@/lib/crypto';
+import { getOrCreateKeyPair } from '@/lib/masterKey';
+import { PasswordSecret, getPasswordEntries, toPasswordSecret } from '@/lib/passwords';
+import { VaultItem, vaultRepository } from '@/data/vault';
+import { ContactKey, EmergencyGrant, contactKeySchema, emergencyAccessRepository } from '@/data/emergencyAccess';
+import { encryptedPayloadSchema } from '@/data/repository';
+
+export type EmergencyStatus = EmergencyGrant['status'];
+
+export interface GrantScope {
+  waitingDays: number;
+  categories: string[];
+  vaultTypes: VaultItem['type'][];
+}
+
+export type EmergencyPassword = PasswordSecret & { category: string };
+
+export type EmergencyVaultItem = Pick<VaultItem, 'name' | 'type' | 'url'> & { cardNumber?: string };
+
+export interface EmergencyVault {
+  passwords: EmergencyPassword[];
+  vaultItems: EmergencyVaultItem[];
+}
+
+export const waitingPeriodOptions = [1, 3, 7, 14, 30];
+
+export const emergencyStatusLabels: Record<EmergencyStatus, string> = {
+  invited: 'Invited',
+  accepted: 'Awaiting confirmation',
+  confirmed: 'Ready',
+  requested: 'Access requested',
+  granted: 'Access granted',
+};
+
+export function getAccessAvailableAt(grant: EmergencyGrant): Date | null {
+  if (!grant.requestedAt) return null;
+  return new Date(grant.requestedAt.getTime() + grant.waitingDays * 24 * 60 * 60 * 1000);
+}
+
+export function hasEmergencyAccess(grant: EmergencyGrant, now = new Date()): boolean {
+  if (grant.status === 'granted') return true;
+  const availableAt = getAccessAvailableAt(grant);
+  return grant.status === 'requested' && !!availableAt && availableAt <= now;
+}
+
+async function unwrapOwnerKey(grant: EmergencyGrant, masterKey: CryptoKey): Promise<CryptoKey> {
+  return importKey(await decryptJson<string>(masterKey, grant.ownerKey), ['encrypt', 'decrypt']);
+}
+
+export async function createGrant(
+  owner: { uid: string; email: string | null },
+  masterKey: CryptoKey,
+  contactEmail: string,
+  scope: GrantScope
+): Promise<void> {
+  const grantKey = await generateKey();
+  await emergencyAccessRepository.add({
+    ownerId: owner.uid,
+    ownerEmail: owner.email ?? '',
+    contactEmail: contactEmail.trim().toLowerCase(),
+    ...scope,
+    status: 'invited',
+    ownerKey: await encryptJson(masterKey, await exportKey(grantKey)),
+    createdAt: new Date(),
+  });
+}
+
+export async function acceptGrant(grant: EmergencyGrant, userId: string, masterKey: CryptoKey): Promise<void> {
+  const { publicKey } = await getOrCreateKeyPair(userId, masterKey);
+  await emergencyAccessRepository.update(grant.id, {
+    contactId: userId,
+    contactPublicKey: publicKey,
+    status: 'accepted',
+  });
+}
+
+function copyRef(grantId: string) {
+  return doc(db, 'emergencyAccess', grantId, 'copy', 'current');
+}
+
+function contactKeyRef(grantId: string) {
+  return doc(db, 'emergencyAccess', grantId, 'keys', 'contact');
+}
+
+// An ephemeral key pair is used on the owner's side, so only its public half needs storing
+async function sealForContact(grantKey: CryptoKey, contactPublicKey: JsonWebKey): Promise<ContactKey> {
+  const ephemeral = await generateKeyPair();
+  const sharedKey = await deriveSharedKey(ephemeral.privateKey, contactPublicKey);
+  return {
+    publicKey: await crypto.subtle.exportKey('jwk', ephemeral.publicKey),
+    payload: await encryptJson(sharedKey, await exportKey(grantKey)),
+  };
+}
+
+async function confirmGrant(grant: EmergencyGrant, masterKey: CryptoKey): Promise<void> {
+  if (!grant.contactPublicKey) return;
+
+  const grantKey = await unwrapOwnerKey(grant, masterKey);
+  const batch = writeBatch(db);
+  batch.set(contactKeyRef(grant.id), await sealForContact(grantKey, grant.contactPublicKey));
+  batch.update(emergencyAccessRepository.ref(grant.id), emergencyAccessRepository.parseChanges({ status: 'confirmed' }));
+  await batch.commit();
+}
+
+export async function requestAccess(grant: EmergencyGrant): Promise<void> {
+  await emergencyAccessRepository.update(grant.id, { status: 'requested', requestedAt: serverTimestamp() });
+}
+
+export async function denyAccess(grant: EmergencyGrant): Promise<void> {
+  await emergencyAccessRepository.update(grant.id, { status: 'confirmed', requestedAt: deleteField() });
+}
+
+export async function approveAccess(grant: EmergencyGrant): Promise<void> {
+  await emergencyAccessRepository.update(grant.id, { status: 'granted' });
+}
+
+export async function revokeGrant(grant: EmergencyGrant): Promise<void> {
+  const batch = writeBatch(db);
+  batch.delete(copyRef(grant.id));
+  batch.delete(contactKeyRef(grant.id));
+  batch.delete(emergencyAccessRepository.ref(grant.id));
+  await batch.commit();
+}
+
+// Re-encrypts the granted categories under the grant key. The contact only ever reads this
+// copy, which is what makes their access read-only and limited to the chosen scope. It lives
+// in a subcollection so security rules can withhold it until the waiting period has passed
+// (see firestore.rules).
+async function syncGrantEntries(
+  grant: EmergencyGrant,
+  masterKey: CryptoKey,
+  passwords: EmergencyPassword[],
+  vaultItems: EmergencyVaultItem[]
+): Promise<void> {
+  const grantKey = await unwrapOwnerKey(grant, masterKey);
+  const batch = writeBatch(db);
+  const payload: EmergencyVault = {
+    passwords: passwords.filter((pw) => grant.categories.includes(pw.category)),
+    vaultItems: vaultItems.filter((item) => grant.vaultTypes.includes(item.type)),
+  };
+  batch.set(copyRef(grant.id), { encrypted: await encryptJson(grantKey, payload) });
+  batch.update(emergencyAccessRepository.ref(grant.id), emergencyAccessRepository.parseChanges({ syncedAt: new Date() }));
+  await batch.commit();
+}
+
+async function loadOwnerData(userId: string, masterKey: CryptoKey): Promise<EmergencyVault> {
+  const [entries, storedItems] = await Promise.all([
+    getPasswordEntries(userId, masterKey),
+    vaultRepository.list(userId),
+  ]);
+
+  const passwords = entries.map((entry) => ({ ...toPasswordSecret(entry), category: entry.category }));
+
+  const vaultItems = await Promise.all(
+    storedItems.map(async (item) => ({
+      name: item.name,
+      type: item.type,
+      url: item.url,
+      cardNumber: item.cardNumber ? await decryptJson<string>(masterKey, item.cardNumber) : undefined,
+    }))
+  );
+
+  return { passwords, vaultItems };
+}
+
+// Runs whenever the owner unlocks: finishes pending key exchanges and refreshes every copy
+export async function syncEmergencyAccess(userId: string, masterKey: CryptoKey): Promise<EmergencyGrant[]> {
+  const grants = await emergencyAccessRepository.list(userId);
+  if (grants.length === 0) return grants;
+
+  for (const grant of grants.filter((g) => g.status === 'accepted')) {
+    await confirmGrant(grant, masterKey);
+  }
+
+  const { passwords, vaultItems } = await loadOwnerData(userId, masterKey);
+  for (const grant of grants) {
+    await syncGrantEntries(grant, masterKey, passwords, vaultItems);
+  }
+  return grants;
+}
+
+export async function openEmergencyVault(grantId: string, userId: string, masterKey: CryptoKey): Promise<{
+  grant: EmergencyGrant;
+  vault: EmergencyVault;
+}> {
+  const grant = await emergencyAccessRepository.get(grantId);
+  if (!grant) {
+    throw new Error('This emergency access has been revoked');
+  }
+
+  if (grant.contactId !== userId) {
+    throw new Error('You are not the trusted contact for this vault');
+  }
+  if (!hasEmergencyAccess(grant)) {
+    throw new Error('The waiting period has not ended yet');
+  }
+
+  // Security rules refuse this read until access is granted or the waiting period has passed by
+  // the server's clock, whatever this device's clock says
+  const contactKey = await getDoc(contactKeyRef(grantId)).catch(() => null);
+  if (!contactKey?.exists()) {
+    throw new Error('The waiting period has not ended yet');
+  }
+
+  const { publicKey: ownerPublicKey, payload } = contactKeySchema.parse(contactKey.data());
+  const { privateKey } = await getOrCreateKeyPair(userId, masterKey);
+  const sharedKey = await deriveSharedKey(privateKey, ownerPublicKey);
+  const grantKey = await importKey(await decryptJson<string>(sharedKey, payload));
+
+  const copy = await getDoc(copyRef(grantId));
+  if (!copy.exists()) {
+    return { grant, vault: { passwords: [], vaultItems: [] } };
+  }
+  const vault = await decryptJson<EmergencyVault>(grantKey, encryptedPayloadSchema.parse(copy.data().encrypted));
+  return { grant, vault };
+}
@@ -0,0 +1,242 @@
+import { fromBase64 } from '@/lib/crypto';
+
+export interface GpgKeyInfo {
+  // e.g. "RSA 4096" or "EdDSA Ed25519"
+  type: string;
+  encrypted: boolean;
+  // Upper-case hex in groups of four, as gpg prints it
+  fingerprint: string;
+  keyId: string;
+  userIds: string[];
+  createdAt: Date;
+}
+
+interface Packet {
+  tag: number;
+  body: Uint8Array;
+}
+
+const SECRET_KEY_TAG = 5;
+const PUBLIC_KEY_TAG = 6;
+const USER_ID_TAG = 13;
+
+const ALGORITHMS: Record<number, string> = {
+  1: 'RSA',
+  2: 'RSA',
+  3: 'RSA',
+  16: 'Elgamal',
+  17: 'DSA',
+  18: 'ECDH',
+  19: 'ECDSA',
+  22: 'EdDSA',
+  25: 'X25519',
+  26: 'X448',
+  27: 'Ed25519',
+  28: 'Ed448',
+};
+
+// Keys of the algorithms added in RFC 9580 have a fixed size and no MPIs
+const FIXED_KEY_LENGTHS: Record<number, number> = { 25: 32, 26: 56, 27: 32, 28: 57 };
+
+const CURVES: Record<string, string> = {
+  '2b06010401da470f01': 'Ed25519',
+  '2b060104019755010501': 'Curve25519',
+  '2a8648ce3d030107': 'NIST P-256',
+  '2b81040022': 'NIST P-384',
+  '2b81040023': 'NIST P-521',
+  '2b2403030208010107': 'Brainpool P-256',
+  '2b240303020801010b': 'Brainpool P-384',
+  '2b240303020801010d': 'Brainpool P-512',
+};
+
+function hex(bytes: Uint8Array): string {
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+function uint32(bytes: Uint8Array, offset: number): number {
+  if (offset + 4 > bytes.length) throw new Error('Truncated key');
+  return new DataView(bytes.buffer, bytes.byteOffset + offset, 4).getUint32(0);
+}
+
+// ASCII armor: optional "Key: value" headers, a blank line, base64 and a "=XXXX" checksum line
+function readArmor(text: string): Uint8Array | null {
+  const match = text.match(/-----BEGIN PGP (PRIVATE|PUBLIC) KEY BLOCK-----([\s\S]*?)-----END PGP \1 KEY BLOCK-----/);
+  if (!match) return null;
+
+  const lines = match[2].trim().split(/\r?\n/).map((line) => line.trim());
+  const headerEnd = lines.findIndex((line) => !line);
+  const body = lines[0]?.includes(':') && headerEnd !== -1 ? lines.slice(headerEnd + 1) : lines;
+  return fromBase64(body.filter((line) => !line.startsWith('=')).join(''));
+}
+
+function readPackets(bytes: Uint8Array): Packet[] {
+  const packets: Packet[] = [];
+  let offset = 0;
+
+  while (offset < bytes.length) {
+    const header = bytes[offset++];
+    if (!(header & 0x80)) throw new Error('Not an OpenPGP packet');
+
+    let tag: number;
+    let length: number;
+    if (header & 0x40) {
+      tag = header & 0x3f;
+      const first = bytes[offset++];
+      if (first < 192) {
+        length = first;
+      } else if (first < 224) {
+        length = ((first - 192) << 8) + bytes[offset++] + 192;
+      } else if (first === 255) {
+        length = uint32(bytes, offset);
+        offset += 4;
+      } else {
+        // Partial lengths are only used for streamed data, never for keys
+        throw new Error('Unsupported packet length');
+      }
+    } else {
+      tag = (header >> 2) & 0x0f;
+      const lengthBytes = [1, 2, 4, 0][header & 0x03];
+      length = lengthBytes === 0 ? bytes.length - offset : 0;
+      for (let i = 0; i < lengthBytes; i++) length = length * 256 + bytes[offset++];
+    }
+
+    if (offset + length > bytes.length) throw new Error('Truncated key');
+    packets.push({ tag, body: bytes.subarray(offset, offset + length) });
+    offset += length;
+  }
+
+  return packets;
+}
+
+// Walks the algorithm-specific public fields of a version 4 key to find where they end
+function readV4KeyMaterial(body: Uint8Array, algorithm: number): { end: number; bits?: number; curve?: string } {
+  let offset = 6;
+  const mpi = () => {
+    const bits = (body[offset] << 8) | body[offset + 1];
+    offset += 2 + Math.ceil(bits / 8);
+    return bits;
+  };
+  const oid = () => {
+    const length = body[offset];
+    const value = body.subarray(offset + 1, offset + 1 + length);
+    offset += 1 + length;
+    return CURVES[hex(value)] ?? 'unknown curve';
+  };
+
+  let bits: number | undefined;
+  let curve: string | undefined;
+  switch (algorithm) {
+    case 1:
+    case 2:
+    case 3:
+      bits = mpi();
+      mpi();
+      break;
+    case 16:
+      bits = mpi();
+      mpi();
+      mpi();
+      break;
+    case 17:
+      bits = mpi();
+      mpi();
+      mpi();
+      mpi();
+      break;
+    case 18:
+      curve = oid();
+      mpi();
+      // KDF parameters
+      offset += 1 + body[offset];
+      break;
+    case 19:
+    case 22:
+      curve = oid();
+      mpi();
+      break;
+    default:
+      if (!(algorithm in FIXED_KEY_LENGTHS)) throw new Error('Unsupported key algorithm');
+      offset += FIXED_KEY_LENGTHS[algorithm];
+  }
+
+  if (offset > body.length) throw new Error('Truncated key');
+  return { end: offset, bits, curve };
+}
+
+function concat(...parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  parts.forEach((part) => {
+    out.set(part, offset);
+    offset += part.length;
+  });
+  return out;
+}
+
+function groupHex(value: string): string {
+  return value.toUpperCase().match(/.{1,4}/g).join(' ');
+}
+
+// Describes the primary key of an armored OpenPGP key block. Version 4 keys are fingerprinted
+// with SHA-1 and version 6 keys with SHA-256, as RFC 9580 specifies.
+async function describeKeyPacket(packet: Packet): Promise<Omit<GpgKeyInfo, 'userIds'>> {
+  const { body } = packet;
+  const version = body[0];
+  const createdAt = new Date(uint32(body, 1) * 1000);
+  const algorithm = body[5];
+
+  let publicEnd: number;
+  let bits: number | undefined;
+  let curve: string | undefined;
+  let fingerprint: string;
+  let keyId: string;
+
+  if (version === 4) {
+    ({ end: publicEnd, bits, curve } = readV4KeyMaterial(body, algorithm));
+    const prefix = new Uint8Array([0x99, publicEnd >> 8, publicEnd & 0xff]);
+    fingerprint = hex(new Uint8Array(await crypto.subtle.digest('SHA-1', concat(prefix, body.subarray(0, publicEnd)))));
+    keyId = fingerprint.slice(-16);
+  } else if (version === 6) {
+    publicEnd = 10 + uint32(body, 6);
+    if (publicEnd > body.length) throw new Error('Truncated key');
+    ({ bits, curve } = algorithm in FIXED_KEY_LENGTHS ? {} : readV4KeyMaterial(body.subarray(4), algorithm));
+    const prefix = new Uint8Array([0x9b, 0, 0, 0, 0]);
+    new DataView(prefix.buffer).setUint32(1, publicEnd);
+    fingerprint = hex(new Uint8Array(await crypto.subtle.digest('SHA-256', concat(prefix, body.subarray(0, publicEnd)))));
+    keyId = fingerprint.slice(0, 16);
+  } else {
+    throw new Error('Unsupported key version');
+  }
+
+  const name = ALGORITHMS[algorithm] ?? `Algorithm ${algorithm}`;
+  return {
+    type: [name, bits ?? curve].filter(Boolean).join(' '),
+    // Secret material follows the public fields; a usage byte of 0 means it is stored unprotected
+    encrypted: packet.tag === SECRET_KEY_TAG && body[publicEnd] !== 0,
+    fingerprint: groupHex(fingerprint),
+    keyId: keyId.toUpperCase(),
+    createdAt,
+  };
+}
+
+// Recognises armored OpenPGP private and public key blocks. Returns null when the text is not
+// one or cannot be read.
+export async function parseGpgKey(text: string): Promise<GpgKeyInfo | null> {
+  try {
+    const bytes = readArmor(text.trim());
+    if (!bytes) return null;
+
+    const packets = readPackets(bytes);
+    const primary = packets[0];
+    if (!primary || (primary.tag !== SECRET_KEY_TAG && primary.tag !== PUBLIC_KEY_TAG)) return null;
+
+    return {
+      ...(await describeKeyPacket(primary)),
+      userIds: packets
+        .filter((packet) => packet.tag === USER_ID_TAG)
+        .map((packet) => new TextDecoder().decode(packet.body)),
+    };
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,48 @@
+// Client-side backoff for failed sign-ins. Firebase limits attempts on its side too; this just
+// stops a form from being hammered and survives reloads by living in localStorage.
+const ATTEMPTS_KEY = 'loginAttempts';
+const FREE_ATTEMPTS = 3;
+const BASE_DELAY_MS = 5 * 1000;
+const MAX_DELAY_MS = 5 * 60 * 1000;
+
+interface AttemptRecord {
+  failures: number;
+  lastFailureAt: number;
+}
+
+function readAttempts(): Record<string, AttemptRecord> {
+  try {
+    return JSON.parse(window.localStorage.getItem(ATTEMPTS_KEY) ?? '{}');
+  } catch {
+    return {};
+  }
+}
+
+function writeAttempts(attempts: Record<string, AttemptRecord>): void {
+  window.localStorage.setItem(ATTEMPTS_KEY, JSON.stringify(attempts));
+}
+
+function getDelay(failures: number): number {
+  if (failures < FREE_ATTEMPTS) return 0;
+  return Math.min(BASE_DELAY_MS * 2 ** (failures - FREE_ATTEMPTS), MAX_DELAY_MS);
+}
+
+// Milliseconds until the next attempt for this email is allowed
+export function getLoginWait(email: string): number {
+  const record = readAttempts()[email.trim().toLowerCase()];
+  if (!record) return 0;
+  return Math.max(0, record.lastFailureAt + getDelay(record.failures) - Date.now());
+}
+
+export function recordLoginFailure(email: string): void {
+  const attempts = readAttempts();
+  const key = email.trim().toLowerCase();
+  attempts[key] = { failures: (attempts[key]?.failures ?? 0) + 1, lastFailureAt: Date.now() };
+  writeAttempts(attempts);
+}
+
+export function clearLoginFailures(email: string): void {
+  const attempts = readAttempts();
+  delete attempts[email.trim().toLowerCase()];
+  writeAttempts(attempts);
+}
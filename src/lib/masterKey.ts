@@ -0,0 +1,89 @@
+import { doc, getDoc, setDoc } from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import {
+  EncryptedPayload,
+  KeyDerivationParams,
+  createKeyDerivationParams,
+  decryptJson,
+  deriveKey,
+  encryptJson,
+  generateKeyPair,
+  importPrivateKey,
+} from '@/lib/crypto';
+
+const VERIFIER = 'personal-vault-pro';
+
+interface KeyPairRecord {
+  publicKey: JsonWebKey;
+  privateKey: EncryptedPayload;
+}
+
+interface MasterKeyRecord extends KeyDerivationParams {
+  verifier: EncryptedPayload;
+  keyPair?: KeyPairRecord;
+  createdAt: Date;
+}
+
+export interface UserKeyPair {
+  publicKey: JsonWebKey;
+  privateKey: CryptoKey;
+}
+
+export async function hasMasterPassword(userId: string): Promise<boolean> {
+  const snapshot = await getDoc(doc(db, 'vaultKeys', userId));
+  return snapshot.exists();
+}
+
+export async function createMasterPassword(userId: string, masterPassword: string): Promise<CryptoKey> {
+  const params = createKeyDerivationParams();
+  const key = await deriveKey(masterPassword, params);
+  const record: MasterKeyRecord = {
+    ...params,
+    verifier: await encryptJson(key, VERIFIER),
+    createdAt: new Date(),
+  };
+
+  await setDoc(doc(db, 'vaultKeys', userId), record);
+  return key;
+}
+
+export async function unlockWithMasterPassword(userId: string, masterPassword: string): Promise<CryptoKey> {
+  const snapshot = await getDoc(doc(db, 'vaultKeys', userId));
+  if (!snapshot.exists()) {
+    throw new Error('No master password has been set');
+  }
+
+  const record = snapshot.data() as MasterKeyRecord;
+  const key = await deriveKey(masterPassword, { salt: record.salt, iterations: record.iterations });
+
+  try {
+    const verifier = await decryptJson<string>(key, record.verifier);
+    if (verifier !== VERIFIER) throw new Error();
+  } catch {
+    throw new Error('Incorrect master password');
+  }
+
+  return key;
+}
+
+// The key pair lets other users encrypt data for this account. Its private half is
+// sealed with the master key, so it is only usable while the vault is unlocked.
+export async function getOrCreateKeyPair(userId: string, masterKey: CryptoKey): Promise<UserKeyPair> {
+  const keyRef = doc(db, 'vaultKeys', userId);
+  const record = (await getDoc(keyRef)).data() as MasterKeyRecord | undefined;
+
+  if (record?.keyPair) {
+    const jwk = await decryptJson<JsonWebKey>(masterKey, record.keyPair.privateKey);
+    return { publicKey: record.keyPair.publicKey, privateKey: await importPrivateKey(jwk) };
+  }
+
+  const pair = await generateKeyPair();
+  const publicKey = await crypto.subtle.exportKey('jwk', pair.publicKey);
+  const keyPair: KeyPairRecord = {
+    publicKey,
+    privateKey: await encryptJson(masterKey, await crypto.subtle.exportKey('jwk', pair.privateKey)),
+  };
+
+  await setDoc(keyRef, { keyPair }, { merge: true });
+  return { publicKey, privateKey: pair.privateKey };
+}
@@ -0,0 +1,152 @@
+import {
+  MultiFactorError,
+  MultiFactorInfo,
+  MultiFactorResolver,
+  TotpMultiFactorGenerator,
+  TotpSecret,
+  User,
+  UserCredential,
+  getMultiFactorResolver,
+  multiFactor,
+} from 'firebase/auth';
+import { getDocs, writeBatch } from 'firebase/firestore';
+import { recoveryCodesRepository } from '@/data/mfaRecovery';
+import { auth, db } from '@/lib/firebase';
+import { randomInt } from '@/lib/passwordGenerator';
+import { downloadFile } from '@/lib/utils';
+
+export const RECOVERY_CODE_COUNT = 10;
+
+const RECOVERY_ALPHABET = 'abcdefghjkmnpqrstuvwxyz23456789';
+
+export function getTotpFactors(user: User): MultiFactorInfo[] {
+  return multiFactor(user).enrolledFactors.filter((factor) => factor.factorId === TotpMultiFactorGenerator.FACTOR_ID);
+}
+
+export async function startTotpEnrollment(user: User): Promise<TotpSecret> {
+  const session = await multiFactor(user).getSession();
+  return TotpMultiFactorGenerator.generateSecret(session);
+}
+
+export function getTotpQrUrl(secret: TotpSecret, user: User): string {
+  return secret.generateQrCodeUrl(user.email ?? user.uid, 'Personal Manager');
+}
+
+// Enrolls the authenticator and returns a fresh set of recovery codes for it
+export async function finishTotpEnrollment(
+  user: User,
+  secret: TotpSecret,
+  code: string,
+  displayName: string
+): Promise<string[]> {
+  const assertion = TotpMultiFactorGenerator.assertionForEnrollment(secret, code.trim());
+  await multiFactor(user).enroll(assertion, displayName);
+
+  return createRecoveryCodes(user.uid);
+}
+
+export async function removeFactor(user: User, factor: MultiFactorInfo): Promise<void> {
+  await multiFactor(user).unenroll(factor);
+  if (getTotpFactors(user).length === 0) {
+    await deleteRecoveryCodes(user.uid);
+  }
+}
+
+export function getMfaResolver(error: unknown): MultiFactorResolver | null {
+  if ((error as { code?: string })?.code !== 'auth/multi-factor-auth-required') return null;
+  return getMultiFactorResolver(auth, error as MultiFactorError);
+}
+
+function getTotpHint(resolver: MultiFactorResolver): MultiFactorInfo {
+  const hint = resolver.hints.find((h) => h.factorId === TotpMultiFactorGenerator.FACTOR_ID);
+  if (!hint) {
+    throw new Error('This account uses a second factor that is not supported here');
+  }
+  return hint;
+}
+
+export function resolveWithTotp(resolver: MultiFactorResolver, code: string): Promise<UserCredential> {
+  const assertion = TotpMultiFactorGenerator.assertionForSignIn(getTotpHint(resolver).uid, code.trim());
+  return resolver.resolveSignIn(assertion);
+}
+
+function normalizeRecoveryCode(code: string): string {
+  return code.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+async function recoveryCodeId(code: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(normalizeRecoveryCode(code)));
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+function generateRecoveryCode(): string {
+  const chars = Array.from({ length: 10 }, () => RECOVERY_ALPHABET[randomInt(RECOVERY_ALPHABET.length)]).join('');
+  return `${chars.slice(0, 5)}-${chars.slice(5)}`;
+}
+
+// Firebase has no recovery codes of its own. Each code is stored under its own hash and only the
+// server can look one up (see api/mfa-recovery.ts), so a code proves nothing until it is redeemed.
+async function createRecoveryCodes(userId: string): Promise<string[]> {
+  await deleteRecoveryCodes(userId);
+
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, generateRecoveryCode);
+  const batch = writeBatch(db);
+  for (const code of codes) {
+    batch.set(
+      recoveryCodesRepository.ref(await recoveryCodeId(code)),
+      recoveryCodesRepository.parse({ ownerId: userId, createdAt: new Date() })
+    );
+  }
+  await batch.commit();
+  return codes;
+}
+
+export async function regenerateRecoveryCodes(user: User): Promise<string[]> {
+  if (getTotpFactors(user).length === 0) {
+    throw new Error('Set up an authenticator app first');
+  }
+  return createRecoveryCodes(user.uid);
+}
+
+export async function countRecoveryCodes(userId: string): Promise<number> {
+  const snapshot = await getDocs(recoveryCodesRepository.ownedBy(userId));
+  return snapshot.size;
+}
+
+async function deleteRecoveryCodes(userId: string): Promise<void> {
+  const snapshot = await getDocs(recoveryCodesRepository.ownedBy(userId));
+  if (snapshot.empty) return;
+
+  const batch = writeBatch(db);
+  snapshot.docs.forEach((codeDoc) => batch.delete(codeDoc.ref));
+  await batch.commit();
+}
+
+// Redeeming a code does not finish this sign-in. The server deletes the code and removes the
+// authenticator, after which the user signs in again with their first factor and has to set up
+// a new authenticator. The factor id from the pending sign-in ties the code to that attempt.
+export async function redeemRecoveryCode(resolver: MultiFactorResolver, code: string): Promise<void> {
+  const response = await fetch('/api/mfa-recovery', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ code: normalizeRecoveryCode(code), factorUid: getTotpHint(resolver).uid }),
+  });
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.error ?? 'Failed to use this recovery code');
+  }
+}
+
+export function downloadRecoveryCodes(codes: string[], email: string | null): void {
+  const text = [
+    'Personal Manager recovery codes',
+    ...(email ? [`Account: ${email}`] : []),
+    `Generated: ${new Date().toLocaleString()}`,
+    '',
+    'If you lose your authenticator app, one code removes it so you can sign in and set up a new one.',
+    '',
+    ...codes,
+    '',
+  ].join('\n');
+  downloadFile('personal-manager-recovery-codes.txt', text, 'text/plain');
+}
@@ -0,0 +1,71 @@
+import { subMonths } from 'date-fns';
+import { Password } from '@/lib/passwords';
+
+export interface AuditOptions {
+  maxAgeMonths: number;
+}
+
+export interface AuditReport {
+  breached: Password[];
+  reused: Password[][];
+  weak: Password[];
+  old: Password[];
+  noWebsite: Password[];
+  healthScore: number;
+}
+
+// Entries saved before lastChangedAt was tracked fall back to their last edit
+export function getLastChanged(pw: Password): Date | undefined {
+  return pw.lastChangedAt ?? pw.updatedAt ?? pw.createdAt;
+}
+
+export function auditPasswords(
+  passwords: Password[],
+  options: AuditOptions,
+  breaches: Map<string, number> = new Map()
+): AuditReport {
+  const breached = passwords
+    .filter((pw) => breaches.has(pw.id))
+    .sort((a, b) => (breaches.get(b.id) || 0) - (breaches.get(a.id) || 0));
+
+  const byValue = new Map<string, Password[]>();
+  passwords.forEach((pw) => {
+    byValue.set(pw.password, [...(byValue.get(pw.password) ?? []), pw]);
+  });
+  const reused = [...byValue.values()]
+    .filter((group) => group.length > 1)
+    .sort((a, b) => b.length - a.length);
+
+  const cutoff = subMonths(new Date(), options.maxAgeMonths);
+  const weak = passwords
+    .filter((pw) => pw.strength <= 1)
+    .sort((a, b) => a.strength - b.strength);
+  const old = passwords
+    .filter((pw) => {
+      const lastChanged = getLastChanged(pw);
+      return lastChanged !== undefined && lastChanged < cutoff;
+    })
+    .sort((a, b) => (getLastChanged(a)?.getTime() || 0) - (getLastChanged(b)?.getTime() || 0));
+  // Keys and tokens are not tied to a login page, so only logins are expected to have one
+  const isMissingWebsite = (pw: Password) => (pw.kind ?? 'login') === 'login' && !pw.website?.trim();
+  const noWebsite = passwords.filter(isMissingWebsite);
+
+  if (passwords.length === 0) {
+    return { breached, reused, weak, old, noWebsite, healthScore: 100 };
+  }
+
+  const reusedIds = new Set(reused.flat().map((pw) => pw.id));
+  const oldIds = new Set(old.map((pw) => pw.id));
+  const total = passwords.reduce((sum, pw) => {
+    let score = 100;
+    if (breaches.has(pw.id)) score -= 50;
+    if (reusedIds.has(pw.id)) score -= 40;
+    if (pw.strength <= 1) score -= 40;
+    else if (pw.strength === 2) score -= 15;
+    if (oldIds.has(pw.id)) score -= 15;
+    if (isMissingWebsite(pw)) score -= 5;
+    return sum + Math.max(score, 0);
+  }, 0);
+
+  return { breached, reused, weak, old, noWebsite, healthScore: Math.round(total / passwords.length) };
+}
@@ -0,0 +1,119 @@
+import {
+  EncryptedPayload,
+  KeyDerivationParams,
+  createKeyDerivationParams,
+  decryptJson,
+  deriveKey,
+  encryptJson,
+} from '@/lib/crypto';
+import { toCsv } from '@/lib/csv';
+import { Password, PasswordSecret } from '@/lib/passwords';
+
+const BACKUP_FORMAT = 'personal-vault-pro-backup';
+const BACKUP_VERSION = 1;
+
+export type BackupEntry = PasswordSecret & {
+  category: string;
+  rotationDays?: number;
+  createdAt?: string;
+  updatedAt?: string;
+  lastChangedAt?: string;
+};
+
+interface BackupContents {
+  exportedAt: string;
+  entries: BackupEntry[];
+}
+
+interface BackupFile {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  kdf: KeyDerivationParams;
+  count: number;
+  payload: EncryptedPayload;
+}
+
+function toBackupEntry(pw: Password): BackupEntry {
+  return {
+    kind: pw.kind,
+    title: pw.title,
+    username: pw.username,
+    password: pw.password,
+    website: pw.website,
+    totpSecret: pw.totpSecret,
+    customFields: pw.customFields,
+    scopes: pw.scopes,
+    expiresAt: pw.expiresAt,
+    category: pw.category,
+    rotationDays: pw.rotationDays,
+    createdAt: pw.createdAt?.toISOString(),
+    updatedAt: pw.updatedAt?.toISOString(),
+    lastChangedAt: pw.lastChangedAt?.toISOString(),
+  };
+}
+
+// The backup is sealed with a key derived from its own passphrase so that it can be
+// restored without access to the account's master password.
+export async function createEncryptedBackup(passwords: Password[], passphrase: string): Promise<string> {
+  const kdf = createKeyDerivationParams();
+  const key = await deriveKey(passphrase, kdf);
+  const contents: BackupContents = {
+    exportedAt: new Date().toISOString(),
+    entries: passwords.map(toBackupEntry),
+  };
+
+  const file: BackupFile = {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    kdf,
+    count: contents.entries.length,
+    payload: await encryptJson(key, contents),
+  };
+
+  return JSON.stringify(file, null, 2);
+}
+
+export async function readEncryptedBackup(text: string, passphrase: string): Promise<BackupEntry[]> {
+  let file: BackupFile;
+  try {
+    file = JSON.parse(text);
+  } catch {
+    throw new Error('File is not a valid backup');
+  }
+
+  if (file.format !== BACKUP_FORMAT || !file.kdf || !file.payload) {
+    throw new Error('File is not a Personal Manager backup');
+  }
+  if (file.version > BACKUP_VERSION) {
+    throw new Error('This backup was created by a newer version of the app');
+  }
+
+  let contents: BackupContents;
+  try {
+    const key = await deriveKey(passphrase, file.kdf);
+    contents = await decryptJson<BackupContents>(key, file.payload);
+  } catch {
+    // AES-GCM authentication fails for both a wrong passphrase and a modified file
+    throw new Error('Wrong passphrase or the backup has been modified');
+  }
+
+  if (!Array.isArray(contents.entries) || contents.entries.length !== file.count) {
+    throw new Error('Backup is incomplete');
+  }
+
+  return contents.entries;
+}
+
+export function createCsvExport(passwords: Password[]): string {
+  return toCsv(
+    ['name', 'url', 'username', 'password', 'totp', 'category'],
+    passwords.map((pw) => [
+      pw.title,
+      pw.website ?? '',
+      pw.username,
+      pw.password,
+      pw.totpSecret ?? '',
+      pw.category,
+    ])
+  );
+}
@@ -0,0 +1,141 @@
+import effWordlist from '@/lib/wordlists/eff_large_wordlist.txt?raw';
+
+export type CharacterClass = 'uppercase' | 'lowercase' | 'digits' | 'symbols';
+
+export interface GeneratorOptions {
+  mode: 'password' | 'passphrase';
+  length: number;
+  classes: Record<CharacterClass, boolean>;
+  excludeAmbiguous: boolean;
+  minPerClass: number;
+  wordCount: number;
+  separator: string;
+  capitalize: boolean;
+  includeNumber: boolean;
+}
+
+export const defaultGeneratorOptions: GeneratorOptions = {
+  mode: 'password',
+  length: 20,
+  classes: {
+    uppercase: true,
+    lowercase: true,
+    digits: true,
+    symbols: true,
+  },
+  excludeAmbiguous: false,
+  minPerClass: 1,
+  wordCount: 5,
+  separator: '-',
+  capitalize: false,
+  includeNumber: false,
+};
+
+const CHARSETS: Record<CharacterClass, string> = {
+  uppercase: 'ABCDEFGHIJKLMNOPQRSTUVWXYZ',
+  lowercase: 'abcdefghijklmnopqrstuvwxyz',
+  digits: '0123456789',
+  symbols: '!@#$%^&*()_+-=[]{}|;:,.<>?',
+};
+
+const AMBIGUOUS = new Set('Il1O0o|`\'";:,.');
+
+let wordlist: string[] | null = null;
+
+function getWordlist(): string[] {
+  if (!wordlist) {
+    wordlist = effWordlist
+      .split('\n')
+      .map((line) => line.split('\t')[1]?.trim())
+      .filter((word): word is string => !!word);
+  }
+  return wordlist;
+}
+
+// Draws uniformly from [0, max) by discarding values from the incomplete final range
+export function randomInt(max: number): number {
+  if (max <= 0 || max > 0x100000000) {
+    throw new RangeError('max must be between 1 and 2^32');
+  }
+
+  const limit = 0x100000000 - (0x100000000 % max);
+  const buffer = new Uint32Array(1);
+  do {
+    crypto.getRandomValues(buffer);
+  } while (buffer[0] >= limit);
+
+  return buffer[0] % max;
+}
+
+function pick(charset: string): string {
+  return charset[randomInt(charset.length)];
+}
+
+function shuffle<T>(items: T[]): T[] {
+  for (let i = items.length - 1; i > 0; i--) {
+    const j = randomInt(i + 1);
+    [items[i], items[j]] = [items[j], items[i]];
+  }
+  return items;
+}
+
+export function getCharsets(options: GeneratorOptions): string[] {
+  return (Object.keys(CHARSETS) as CharacterClass[])
+    .filter((cls) => options.classes[cls])
+    .map((cls) => options.excludeAmbiguous
+      ? [...CHARSETS[cls]].filter((char) => !AMBIGUOUS.has(char)).join('')
+      : CHARSETS[cls]);
+}
+
+export function generatePassword(options: GeneratorOptions = defaultGeneratorOptions): string {
+  const charsets = getCharsets(options);
+  if (charsets.length === 0) {
+    throw new Error('Select at least one character type');
+  }
+  if (charsets.length * options.minPerClass > options.length) {
+    throw new Error('Length is too short for the minimum characters per type');
+  }
+
+  const chars: string[] = [];
+  charsets.forEach((charset) => {
+    for (let i = 0; i < options.minPerClass; i++) {
+      chars.push(pick(charset));
+    }
+  });
+
+  const combined = charsets.join('');
+  while (chars.length < options.length) {
+    chars.push(pick(combined));
+  }
+
+  return shuffle(chars).join('');
+}
+
+export function generatePassphrase(options: GeneratorOptions = defaultGeneratorOptions): string {
+  const words = getWordlist();
+  const selected = Array.from({ length: options.wordCount }, () => {
+    const word = words[randomInt(words.length)];
+    return options.capitalize ? word.charAt(0).toUpperCase() + word.slice(1) : word;
+  });
+
+  if (options.includeNumber) {
+    const index = randomInt(selected.length);
+    selected[index] = `${selected[index]}${randomInt(10)}`;
+  }
+
+  return selected.join(options.separator);
+}
+
+export function generateSecret(options: GeneratorOptions = defaultGeneratorOptions): string {
+  return options.mode === 'passphrase' ? generatePassphrase(options) : generatePassword(options);
+}
+
+export function estimateGeneratorEntropy(options: GeneratorOptions): number {
+  if (options.mode === 'passphrase') {
+    const bits = options.wordCount * Math.log2(getWordlist().length);
+    return Math.round(options.includeNumber ? bits + Math.log2(10 * options.wordCount) : bits);
+  }
+
+  const poolSize = getCharsets(options).join('').length;
+  return poolSize > 0 ? Math.round(options.length * Math.log2(poolSize)) : 0;
+}
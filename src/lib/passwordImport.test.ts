@@ -0,0 +1,97 @@
+import { describe, expect, it, vi } from 'vitest';
+import { isDuplicate, parseImportFile, suggestCategory } from '@/lib/passwordImport';
+
+vi.mock('@/lib/firebase', () => ({ db: {} }));
+
+const login = { title: 'Example', username: 'alice', password: 'secret', website: 'https://example.com' };
+
+describe('parseImportFile', () => {
+  it('reads an unencrypted Bitwarden export and skips non-login items', async () => {
+    const file = new File(
+      [
+        JSON.stringify({
+          folders: [{ id: 'f1', name: 'Banking' }],
+          items: [
+            {
+              type: 1,
+              name: 'Bank',
+              folderId: 'f1',
+              login: { username: 'alice', password: 'pw', totp: 'JBSWY3DP', uris: [{ uri: 'bank.example.com' }] },
+            },
+            { type: 2, name: 'A secure note' },
+          ],
+        }),
+      ],
+      'bitwarden.json'
+    );
+
+    expect(await parseImportFile(file)).toEqual({
+      format: 'bitwarden',
+      entries: [
+        {
+          title: 'Bank',
+          username: 'alice',
+          password: 'pw',
+          website: 'https://bank.example.com',
+          totpSecret: 'JBSWY3DP',
+          folder: 'Banking',
+        },
+      ],
+      skipped: 1,
+    });
+  });
+
+  it('refuses encrypted Bitwarden exports', async () => {
+    const file = new File([JSON.stringify({ encrypted: true, items: [] })], 'bitwarden.json');
+    await expect(parseImportFile(file)).rejects.toThrow('Encrypted Bitwarden exports are not supported');
+  });
+
+  it('reads a LastPass CSV and drops secure notes', async () => {
+    const csv = [
+      'url,username,password,totp,extra,name,grouping,fav',
+      'https://mail.example.com/,alice,pw,,,Mail,Email,0',
+      'http://sn,,,,note text,Note,,0',
+    ].join('\n');
+
+    const result = await parseImportFile(new File([csv], 'lastpass.csv'));
+    expect(result.format).toBe('lastpass');
+    expect(result.entries).toEqual([
+      { title: 'Mail', username: 'alice', password: 'pw', website: 'https://mail.example.com', totpSecret: undefined, folder: 'Email' },
+    ]);
+    expect(result.skipped).toBe(1);
+  });
+
+  it('titles Firefox entries after the host', async () => {
+    const csv = [
+      'url,username,password,httpRealm,formActionOrigin,guid,timeCreated,timeLastUsed,timePasswordChanged',
+      'https://www.example.com,alice,pw,,,{1},0,0,0',
+    ].join('\n');
+
+    const result = await parseImportFile(new File([csv], 'firefox.csv'));
+    expect(result.format).toBe('firefox');
+    expect(result.entries[0]).toMatchObject({ title: 'example.com', username: 'alice' });
+  });
+
+  it('rejects CSV files from unknown sources', async () => {
+    await expect(parseImportFile(new File(['a,b\n1,2'], 'other.csv'))).rejects.toThrow('Unrecognized CSV export');
+  });
+});
+
+describe('suggestCategory', () => {
+  it('maps folder names onto the built-in categories', () => {
+    expect(suggestCategory('Personal/email')).toBe('Email');
+    expect(suggestCategory('Online Banking')).toBe('Banking');
+    expect(suggestCategory('Misc')).toBe('Other');
+  });
+});
+
+describe('isDuplicate', () => {
+  it('matches the same user on the same site', () => {
+    expect(isDuplicate({ ...login, website: 'https://login.example.com/path' }, login)).toBe(true);
+  });
+
+  it('does not match a different user or site', () => {
+    expect(isDuplicate({ ...login, username: 'bob' }, login)).toBe(false);
+    expect(isDuplicate({ ...login, website: 'https://example.org' }, login)).toBe(false);
+  });
+});
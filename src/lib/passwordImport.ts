@@ -0,0 +1,292 @@
+import { parseCsvRecords } from '@/lib/csv';
+import { readZipEntry } from '@/lib/zip';
+import { getRegistrableDomain, normalizeWebsite } from '@/lib/domains';
+import { Password, categories } from '@/lib/passwords';
+
+export type ImportFormat = 'bitwarden' | '1password-1pux' | '1password-csv' | 'lastpass' | 'keepass' | 'chrome' | 'firefox';
+
+export interface ImportedEntry {
+  title: string;
+  username: string;
+  password: string;
+  website: string;
+  totpSecret?: string;
+  folder: string;
+}
+
+export interface ImportResult {
+  format: ImportFormat;
+  entries: ImportedEntry[];
+  skipped: number;
+}
+
+export const importFormatLabels: Record<ImportFormat, string> = {
+  bitwarden: 'Bitwarden (JSON)',
+  '1password-1pux': '1Password (1PUX)',
+  '1password-csv': '1Password (CSV)',
+  lastpass: 'LastPass (CSV)',
+  keepass: 'KeePass (XML)',
+  chrome: 'Chrome (CSV)',
+  firefox: 'Firefox (CSV)',
+};
+
+const CATEGORY_KEYWORDS: [RegExp, string][] = [
+  [/bank|financ|money|credit|invest|pay/i, 'Banking'],
+  [/mail/i, 'Email'],
+  [/social|facebook|twitter|instagram/i, 'Social Media'],
+  [/shop|store|retail/i, 'Shopping'],
+  [/work|business|office|corp/i, 'Work'],
+  [/entertain|stream|music|video|game|media/i, 'Entertainment'],
+];
+
+export function suggestCategory(folder: string): string {
+  const leaf = folder.split('/').pop()?.trim() ?? '';
+  const exact = categories.find((cat) => cat.toLowerCase() === leaf.toLowerCase());
+  if (exact) return exact;
+  return CATEGORY_KEYWORDS.find(([pattern]) => pattern.test(leaf))?.[1] ?? 'Other';
+}
+
+function entry(fields: Partial<ImportedEntry>): ImportedEntry {
+  return {
+    title: fields.title?.trim() || fields.website?.trim() || 'Untitled',
+    username: fields.username?.trim() ?? '',
+    password: fields.password ?? '',
+    website: normalizeWebsite(fields.website ?? ''),
+    totpSecret: fields.totpSecret?.trim() || undefined,
+    folder: fields.folder?.trim() ?? '',
+  };
+}
+
+function hostTitle(url: string): string {
+  try {
+    return new URL(url).hostname.replace(/^www\./, '');
+  } catch {
+    return url;
+  }
+}
+
+interface BitwardenExport {
+  encrypted?: boolean;
+  folders?: { id: string; name: string }[];
+  items?: {
+    type: number;
+    name: string;
+    folderId?: string | null;
+    login?: {
+      username?: string | null;
+      password?: string | null;
+      totp?: string | null;
+      uris?: { uri?: string | null }[] | null;
+    };
+  }[];
+}
+
+function parseBitwarden(data: BitwardenExport): ImportedEntry[] {
+  if (data.encrypted) {
+    throw new Error('Encrypted Bitwarden exports are not supported. Export as unencrypted JSON.');
+  }
+
+  const folders = new Map((data.folders ?? []).map((folder) => [folder.id, folder.name]));
+  return (data.items ?? [])
+    .filter((item) => item.type === 1 && item.login)
+    .map((item) => entry({
+      title: item.name,
+      username: item.login?.username ?? '',
+      password: item.login?.password ?? '',
+      website: item.login?.uris?.[0]?.uri ?? '',
+      totpSecret: item.login?.totp ?? undefined,
+      folder: item.folderId ? folders.get(item.folderId) : '',
+    }));
+}
+
+interface OnePuxField {
+  designation?: string;
+  value?: string;
+}
+
+interface OnePuxExport {
+  accounts?: {
+    vaults?: {
+      attrs?: { name?: string };
+      items?: {
+        state?: string;
+        overview?: { title?: string; url?: string };
+        details?: {
+          loginFields?: OnePuxField[];
+          sections?: { fields?: { value?: { totp?: string } }[] }[];
+        };
+      }[];
+    }[];
+  }[];
+}
+
+function parseOnePux(data: OnePuxExport): ImportedEntry[] {
+  const entries: ImportedEntry[] = [];
+  data.accounts?.forEach((account) => {
+    account.vaults?.forEach((vault) => {
+      vault.items?.forEach((item) => {
+        if (item.state === 'archived') return;
+        const fields = item.details?.loginFields ?? [];
+        const password = fields.find((field) => field.designation === 'password')?.value;
+        if (!password) return;
+
+        const totp = item.details?.sections
+          ?.flatMap((section) => section.fields ?? [])
+          .find((field) => field.value?.totp)?.value?.totp;
+
+        entries.push(entry({
+          title: item.overview?.title,
+          username: fields.find((field) => field.designation === 'username')?.value,
+          password,
+          website: item.overview?.url,
+          totpSecret: totp,
+          folder: vault.attrs?.name,
+        }));
+      });
+    });
+  });
+  return entries;
+}
+
+function parseKeePass(xml: string): ImportedEntry[] {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  if (doc.querySelector('parsererror') || !doc.querySelector('KeePassFile')) {
+    throw new Error('File is not a KeePass XML export');
+  }
+
+  const entries: ImportedEntry[] = [];
+  const walk = (group: Element, path: string[]) => {
+    Array.from(group.children).forEach((child) => {
+      if (child.tagName === 'Group') {
+        const name = child.querySelector(':scope > Name')?.textContent ?? '';
+        if (name !== 'Recycle Bin') walk(child, [...path, name]);
+      } else if (child.tagName === 'Entry') {
+        const values: Record<string, string> = {};
+        child.querySelectorAll(':scope > String').forEach((field) => {
+          const key = field.querySelector('Key')?.textContent ?? '';
+          values[key] = field.querySelector('Value')?.textContent ?? '';
+        });
+        entries.push(entry({
+          title: values.Title,
+          username: values.UserName,
+          password: values.Password,
+          website: values.URL,
+          totpSecret: values.otp,
+          // The top-level group is the database itself rather than a user folder
+          folder: path.slice(1).join('/'),
+        }));
+      }
+    });
+  };
+
+  const root = doc.querySelector('KeePassFile > Root > Group');
+  if (root) walk(root, [root.querySelector(':scope > Name')?.textContent ?? '']);
+  return entries.filter((item) => item.password);
+}
+
+function detectCsvFormat(header: string[]): ImportFormat | null {
+  const has = (...keys: string[]) => keys.every((key) => header.includes(key));
+  if (has('url', 'username', 'password', 'extra', 'name', 'grouping')) return 'lastpass';
+  if (has('url', 'username', 'password', 'httprealm')) return 'firefox';
+  if (has('title', 'username', 'password') && (has('url') || has('website') || has('otpauth'))) return '1password-csv';
+  if (has('name', 'url', 'username', 'password')) return 'chrome';
+  return null;
+}
+
+function parseCsvExport(text: string): { format: ImportFormat; entries: ImportedEntry[] } {
+  const records = parseCsvRecords(text);
+  const format = detectCsvFormat(Object.keys(records[0] ?? {}));
+  if (!format) {
+    throw new Error('Unrecognized CSV export. Supported: LastPass, 1Password, Chrome and Firefox.');
+  }
+
+  const entries = records.map((record) => {
+    switch (format) {
+      case 'lastpass':
+        // Secure notes are exported with the placeholder URL "http://sn" and no password
+        if (record.url === 'http://sn') return null;
+        return entry({
+          title: record.name,
+          username: record.username,
+          password: record.password,
+          website: record.url,
+          totpSecret: record.totp,
+          folder: record.grouping,
+        });
+      case '1password-csv':
+        return entry({
+          title: record.title,
+          username: record.username,
+          password: record.password,
+          website: record.url || record.website,
+          totpSecret: record.otpauth,
+          folder: record.tags?.split(';')[0],
+        });
+      case 'firefox':
+        return entry({
+          title: hostTitle(record.url),
+          username: record.username,
+          password: record.password,
+          website: record.url,
+        });
+      default:
+        return entry({
+          title: record.name,
+          username: record.username,
+          password: record.password,
+          website: record.url,
+        });
+    }
+  });
+
+  return { format, entries: entries.filter((item): item is ImportedEntry => !!item && !!item.password) };
+}
+
+export async function parseImportFile(file: File): Promise<ImportResult> {
+  const name = file.name.toLowerCase();
+  let format: ImportFormat;
+  let entries: ImportedEntry[];
+  let total: number;
+
+  if (name.endsWith('.1pux')) {
+    const data = await readZipEntry(await file.arrayBuffer(), 'export.data');
+    if (!data) throw new Error('1PUX archive has no export.data');
+    const parsed = JSON.parse(new TextDecoder().decode(data)) as OnePuxExport;
+    format = '1password-1pux';
+    entries = parseOnePux(parsed);
+    total = parsed.accounts?.flatMap((a) => a.vaults ?? []).flatMap((v) => v.items ?? []).length ?? 0;
+  } else {
+    const text = await file.text();
+    const trimmed = text.trimStart();
+
+    if (trimmed.startsWith('{')) {
+      const parsed = JSON.parse(text) as BitwardenExport;
+      format = 'bitwarden';
+      entries = parseBitwarden(parsed);
+      total = parsed.items?.length ?? 0;
+    } else if (trimmed.startsWith('<')) {
+      format = 'keepass';
+      entries = parseKeePass(text);
+      total = entries.length;
+    } else {
+      ({ format, entries } = parseCsvExport(text));
+      total = parseCsvRecords(text).length;
+    }
+  }
+
+  return { format, entries, skipped: Math.max(total - entries.length, 0) };
+}
+
+type LoginFields = Pick<Password, 'title' | 'username' | 'password' | 'website'>;
+
+export function isDuplicate(candidate: LoginFields, existing: LoginFields): boolean {
+  const sameUser = candidate.username.toLowerCase() === existing.username.toLowerCase();
+  if (!sameUser) return false;
+
+  const candidateDomain = getRegistrableDomain(candidate.website);
+  const existingDomain = getRegistrableDomain(existing.website);
+  if (candidateDomain && existingDomain) {
+    return candidateDomain === existingDomain;
+  }
+  return candidate.title.toLowerCase() === existing.title.toLowerCase() || candidate.password === existing.password;
+}
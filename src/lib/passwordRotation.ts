@@ -0,0 +1,47 @@
+import { addDays, differenceInCalendarDays } from 'date-fns';
+import { Password } from '@/lib/passwords';
+import { getLastChanged } from '@/lib/passwordAudit';
+
+export const rotationIntervalOptions = [30, 60, 90, 180, 365];
+
+// Entries are listed a week before their deadline so there is time to rotate them
+const DUE_SOON_DAYS = 7;
+
+export interface RotationItem {
+  password: Password;
+  dueAt: Date;
+  daysLeft: number;
+}
+
+export function getRotationInterval(pw: Password, policies: Record<string, number>): number | undefined {
+  const days = pw.rotationDays ?? policies[pw.category];
+  return days && days > 0 ? days : undefined;
+}
+
+export function getRotationDueAt(pw: Password, policies: Record<string, number>): Date | undefined {
+  const interval = getRotationInterval(pw, policies);
+  const lastChanged = getLastChanged(pw);
+  if (!interval || !lastChanged) return undefined;
+  return addDays(lastChanged, interval);
+}
+
+export function getDueForRotation(
+  passwords: Password[],
+  policies: Record<string, number>,
+  now = new Date()
+): RotationItem[] {
+  return passwords
+    .flatMap((password) => {
+      const dueAt = getRotationDueAt(password, policies);
+      if (!dueAt) return [];
+      const daysLeft = differenceInCalendarDays(dueAt, now);
+      return daysLeft <= DUE_SOON_DAYS ? [{ password, dueAt, daysLeft }] : [];
+    })
+    .sort((a, b) => a.dueAt.getTime() - b.dueAt.getTime());
+}
+
+export function describeRotationDue(item: RotationItem): string {
+  if (item.daysLeft < 0) return `Overdue by ${-item.daysLeft} day${item.daysLeft === -1 ? '' : 's'}`;
+  if (item.daysLeft === 0) return 'Due today';
+  return `Due in ${item.daysLeft} day${item.daysLeft === 1 ? '' : 's'}`;
+}
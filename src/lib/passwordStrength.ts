@@ -0,0 +1,315 @@
+import effWordlist from '@/lib/wordlists/eff_large_wordlist.txt?raw';
+
+export type StrengthScore = 0 | 1 | 2 | 3 | 4;
+
+export type WeaknessPattern = 'dictionary' | 'keyboard' | 'repeat' | 'sequence' | 'date' | 'short';
+
+interface Match {
+  pattern: Exclude<WeaknessPattern, 'short'>;
+  start: number;
+  end: number;
+  token: string;
+  guesses: number;
+}
+
+export interface StrengthResult {
+  score: StrengthScore;
+  entropy: number;
+  label: string;
+  warning: string | null;
+  suggestions: string[];
+  patterns: WeaknessPattern[];
+}
+
+export const strengthLabels: Record<StrengthScore, string> = {
+  0: 'Very weak',
+  1: 'Weak',
+  2: 'Fair',
+  3: 'Strong',
+  4: 'Very strong',
+};
+
+const COMMON_PASSWORDS = [
+  'password', '123456', '12345678', 'qwerty', 'abc123', 'monkey', 'letmein', 'dragon', '111111',
+  'baseball', 'iloveyou', 'trustno1', 'sunshine', 'master', 'welcome', 'shadow', 'ashley', 'football',
+  'jesus', 'michael', 'ninja', 'mustang', 'password1', 'superman', 'batman', 'princess', 'admin',
+  'login', 'starwars', 'hello', 'freedom', 'whatever', 'qazwsx', 'charlie', 'donald', 'passw0rd',
+  'secret', 'summer', 'winter', 'spring', 'autumn', 'flower', 'hunter', 'soccer', 'hockey', 'killer',
+  'george', 'computer', 'michelle', 'jessica', 'pepper', 'daniel', 'access', 'joshua', 'maggie',
+  'cheese', 'matrix', 'internet', 'samsung', 'google', 'facebook', 'linkedin', 'instagram', 'changeme',
+  'default', 'guest', 'root', 'test', 'love', 'lovely', 'angel', 'family', 'friends', 'money',
+  'orange', 'purple', 'banana', 'chocolate', 'cookie', 'pokemon', 'naruto', 'liverpool', 'chelsea',
+  'arsenal', 'barcelona', 'india', 'london', 'america', 'canada', 'server', 'office', 'work', 'school',
+];
+
+const L33T: Record<string, string> = {
+  '4': 'a', '@': 'a', '8': 'b', '(': 'c', '3': 'e', '6': 'g', '1': 'i', '!': 'i', '|': 'l',
+  '0': 'o', '$': 's', '5': 's', '7': 't', '+': 't', '2': 'z',
+};
+
+const KEYBOARD_ROWS = ['`1234567890-=', 'qwertyuiop[]\\', "asdfghjkl;'", 'zxcvbnm,./'];
+const SHIFTED = '~!@#$%^&*()_+QWERTYUIOP{}|ASDFGHJKL:"ZXCVBNM<>?';
+const UNSHIFTED = "`1234567890-=qwertyuiop[]\\asdfghjkl;'zxcvbnm,./";
+
+const MIN_YEAR = 1900;
+const MAX_YEAR = 2050;
+
+let dictionary: Map<string, number> | null = null;
+let keyPositions: Map<string, [number, number]> | null = null;
+
+function getDictionary(): Map<string, number> {
+  if (!dictionary) {
+    dictionary = new Map();
+    COMMON_PASSWORDS.forEach((word, index) => dictionary!.set(word, index + 1));
+    effWordlist.split('\n').forEach((line) => {
+      const word = line.split('\t')[1]?.trim();
+      if (word && word.length >= 4 && !dictionary!.has(word)) {
+        dictionary!.set(word, COMMON_PASSWORDS.length + dictionary!.size);
+      }
+    });
+  }
+  return dictionary;
+}
+
+function getKeyPositions(): Map<string, [number, number]> {
+  if (!keyPositions) {
+    keyPositions = new Map();
+    KEYBOARD_ROWS.forEach((row, rowIndex) => {
+      [...row].forEach((key, colIndex) => keyPositions!.set(key, [rowIndex, colIndex + rowIndex * 0.5]));
+    });
+  }
+  return keyPositions;
+}
+
+function unshift(char: string): string {
+  const index = SHIFTED.indexOf(char);
+  return index === -1 ? char.toLowerCase() : UNSHIFTED[index];
+}
+
+function uppercaseVariations(token: string): number {
+  const upper = [...token].filter((char) => char !== char.toLowerCase()).length;
+  if (upper === 0) return 1;
+  if (upper === token.length) return 2;
+  if (upper === 1 && token[0] !== token[0].toLowerCase()) return 2;
+  return Math.min(2 ** upper, 2 ** 10);
+}
+
+function findDictionaryMatches(password: string): Match[] {
+  const words = getDictionary();
+  const matches: Match[] = [];
+  const lower = password.toLowerCase();
+
+  for (let start = 0; start < password.length; start++) {
+    for (let end = start + 3; end <= Math.min(password.length, start + 20); end++) {
+      const token = lower.slice(start, end);
+      const unleeted = [...token].map((char) => L33T[char] ?? char).join('');
+      const rank = words.get(token) ?? words.get(unleeted);
+      if (rank === undefined) continue;
+
+      const leetFactor = words.has(token) ? 1 : 2;
+      matches.push({
+        pattern: 'dictionary',
+        start,
+        end,
+        token: password.slice(start, end),
+        guesses: rank * uppercaseVariations(password.slice(start, end)) * leetFactor,
+      });
+    }
+  }
+  return matches;
+}
+
+function isAdjacent(a: string, b: string): boolean {
+  const positions = getKeyPositions();
+  const from = positions.get(unshift(a));
+  const to = positions.get(unshift(b));
+  if (!from || !to || from === to) return false;
+  return Math.abs(from[0] - to[0]) <= 1 && Math.abs(from[1] - to[1]) <= 1;
+}
+
+function findKeyboardMatches(password: string): Match[] {
+  const matches: Match[] = [];
+  let start = 0;
+
+  for (let i = 1; i <= password.length; i++) {
+    if (i < password.length && isAdjacent(password[i - 1], password[i])) continue;
+
+    if (i - start >= 4) {
+      const token = password.slice(start, i);
+      let turns = 0;
+      for (let j = 2; j < token.length; j++) {
+        const positions = getKeyPositions();
+        const [r0, c0] = positions.get(unshift(token[j - 2]))!;
+        const [r1, c1] = positions.get(unshift(token[j - 1]))!;
+        const [r2, c2] = positions.get(unshift(token[j]))!;
+        if (r1 - r0 !== r2 - r1 || Math.sign(c1 - c0) !== Math.sign(c2 - c1)) turns++;
+      }
+      matches.push({ pattern: 'keyboard', start, end: i, token, guesses: 47 * token.length * 4 ** turns });
+    }
+    start = i;
+  }
+  return matches;
+}
+
+function findRepeatMatches(password: string): Match[] {
+  const matches: Match[] = [];
+  const regex = /(.+?)\1+/g;
+  let result: RegExpExecArray | null;
+
+  while ((result = regex.exec(password)) !== null) {
+    const [token, base] = result;
+    if (token.length >= 3) {
+      const repeats = token.length / base.length;
+      const baseGuesses = base.length === 1 ? 10 : 26 ** Math.min(base.length, 4);
+      matches.push({ pattern: 'repeat', start: result.index, end: result.index + token.length, token, guesses: baseGuesses * repeats });
+    }
+  }
+  return matches;
+}
+
+function findSequenceMatches(password: string): Match[] {
+  const matches: Match[] = [];
+  const delta = (i: number) => password.charCodeAt(i) - password.charCodeAt(i - 1);
+  let start = 0;
+
+  for (let i = 1; i <= password.length; i++) {
+    const step = i < password.length ? delta(i) : 0;
+    if (Math.abs(step) === 1 && (i - start === 1 || step === delta(i - 1))) continue;
+
+    if (i - start >= 3) {
+      const token = password.slice(start, i);
+      const base = /^\d+$/.test(token) ? 10 : 26;
+      matches.push({ pattern: 'sequence', start, end: i, token, guesses: base * token.length });
+    }
+    start = Math.abs(step) === 1 ? i - 1 : i;
+  }
+  return matches;
+}
+
+function findDateMatches(password: string): Match[] {
+  const matches: Match[] = [];
+  const yearSpan = MAX_YEAR - MIN_YEAR + 1;
+
+  const yearRegex = /(19|20)\d\d/g;
+  let result: RegExpExecArray | null;
+  while ((result = yearRegex.exec(password)) !== null) {
+    const year = Number(result[0]);
+    if (year >= MIN_YEAR && year <= MAX_YEAR) {
+      matches.push({ pattern: 'date', start: result.index, end: result.index + 4, token: result[0], guesses: yearSpan });
+    }
+  }
+
+  const dateRegex = /\d{1,4}[-/._ ]?\d{1,2}[-/._ ]?\d{2,4}/g;
+  while ((result = dateRegex.exec(password)) !== null) {
+    const parts = result[0].split(/[-/._ ]/);
+    const digits = result[0].replace(/\D/g, '');
+    const plausible = parts.length === 3
+      ? parts.some((part) => Number(part) >= 1 && Number(part) <= 12)
+      : digits.length >= 6 && digits.length <= 8;
+    if (plausible) {
+      matches.push({ pattern: 'date', start: result.index, end: result.index + result[0].length, token: result[0], guesses: 365 * yearSpan });
+    }
+  }
+  return matches;
+}
+
+function bruteforceCardinality(password: string): number {
+  let cardinality = 0;
+  if (/[a-z]/.test(password)) cardinality += 26;
+  if (/[A-Z]/.test(password)) cardinality += 26;
+  if (/\d/.test(password)) cardinality += 10;
+  if (/[^a-zA-Z\d]/.test(password)) cardinality += 33;
+  return Math.max(cardinality, 10);
+}
+
+function scoreFromEntropy(entropy: number): StrengthScore {
+  if (entropy < 28) return 0;
+  if (entropy < 40) return 1;
+  if (entropy < 60) return 2;
+  if (entropy < 80) return 3;
+  return 4;
+}
+
+const warnings: Record<WeaknessPattern, string> = {
+  dictionary: 'Contains a common word or password',
+  keyboard: 'Contains a keyboard pattern',
+  repeat: 'Contains repeated characters',
+  sequence: 'Contains a predictable sequence',
+  date: 'Contains a date or year',
+  short: 'Too short',
+};
+
+const suggestionsByPattern: Record<WeaknessPattern, string> = {
+  dictionary: 'Avoid dictionary words, names and their l33t variations',
+  keyboard: 'Avoid runs of neighbouring keys like "qwerty" or "asdf"',
+  repeat: 'Avoid repeating characters or words',
+  sequence: 'Avoid sequences like "abc" or "1234"',
+  date: 'Avoid dates and years that are associated with you',
+  short: 'Use at least 12 characters, or a passphrase of several random words',
+};
+
+// Entropy only grows with length, so scoring a prefix is a safe lower bound and keeps
+// multi-kilobyte keys from running the per-position matching below
+const MAX_SCORED_LENGTH = 128;
+
+// Splits the password into the cheapest-to-guess sequence of matches, falling back to
+// brute force per character, and reports the total as bits of entropy.
+export function estimateStrength(input: string): StrengthResult {
+  const password = (input ?? '').slice(0, MAX_SCORED_LENGTH);
+  if (!password) {
+    return { score: 0, entropy: 0, label: strengthLabels[0], warning: null, suggestions: [], patterns: [] };
+  }
+
+  const matches = [
+    ...findDictionaryMatches(password),
+    ...findKeyboardMatches(password),
+    ...findRepeatMatches(password),
+    ...findSequenceMatches(password),
+    ...findDateMatches(password),
+  ];
+
+  const charBits = Math.log2(bruteforceCardinality(password));
+  const best: { bits: number; match: Match | null; from: number }[] = [{ bits: 0, match: null, from: 0 }];
+
+  for (let end = 1; end <= password.length; end++) {
+    best[end] = { bits: best[end - 1].bits + charBits, match: null, from: end - 1 };
+    matches
+      .filter((match) => match.end === end)
+      .forEach((match) => {
+        const bits = best[match.start].bits + Math.log2(Math.max(match.guesses, 1));
+        if (bits < best[end].bits) {
+          best[end] = { bits, match, from: match.start };
+        }
+      });
+  }
+
+  const used: Match[] = [];
+  for (let position = password.length; position > 0; position = best[position].from) {
+    if (best[position].match) used.unshift(best[position].match!);
+  }
+
+  const entropy = Math.round(best[password.length].bits);
+  const patterns = [...new Set(used.map((match) => match.pattern))] as WeaknessPattern[];
+  if (password.length < 12) patterns.push('short');
+
+  const score = scoreFromEntropy(entropy);
+  const worst = used.length > 0
+    ? used.reduce((a, b) => (b.end - b.start > a.end - a.start ? b : a))
+    : null;
+  const warning = score >= 3
+    ? null
+    : worst
+    ? `${warnings[worst.pattern]}: "${worst.token}"`
+    : password.length < 12
+    ? warnings.short
+    : null;
+
+  return {
+    score,
+    entropy,
+    label: strengthLabels[score],
+    warning,
+    suggestions: score >= 3 ? [] : patterns.map((pattern) => suggestionsByPattern[pattern]),
+    patterns,
+  };
+}
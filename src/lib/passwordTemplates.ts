@@ -0,0 +1,74 @@
+import { CustomField, CustomFieldType } from '@/lib/passwords';
+
+export interface EntryTemplate {
+  id: string;
+  name: string;
+  category: string;
+  fields: { label: string; type: CustomFieldType }[];
+}
+
+export const entryTemplates: EntryTemplate[] = [
+  {
+    id: 'login',
+    name: 'Login',
+    category: 'Other',
+    fields: [],
+  },
+  {
+    id: 'bank-account',
+    name: 'Bank account',
+    category: 'Banking',
+    fields: [
+      { label: 'Account number', type: 'hidden' },
+      { label: 'Routing / sort code', type: 'text' },
+      { label: 'PIN', type: 'hidden' },
+      { label: 'Security question', type: 'text' },
+      { label: 'Security answer', type: 'hidden' },
+    ],
+  },
+  {
+    id: 'wifi',
+    name: 'Wi-Fi network',
+    category: 'Other',
+    fields: [
+      { label: 'Network name (SSID)', type: 'text' },
+      { label: 'Security type', type: 'text' },
+    ],
+  },
+  {
+    id: 'software-license',
+    name: 'Software license',
+    category: 'Work',
+    fields: [
+      { label: 'License key', type: 'hidden' },
+      { label: 'Licensed to', type: 'text' },
+      { label: 'Purchase date', type: 'date' },
+      { label: 'Expires', type: 'date' },
+      { label: 'Download page', type: 'url' },
+    ],
+  },
+  {
+    id: 'server',
+    name: 'Server / SSH',
+    category: 'Work',
+    fields: [
+      { label: 'Hostname', type: 'text' },
+      { label: 'Port', type: 'text' },
+      { label: 'Key passphrase', type: 'hidden' },
+    ],
+  },
+];
+
+export function createCustomField(label = '', type: CustomFieldType = 'text'): CustomField {
+  return { id: crypto.randomUUID(), label, type, value: '' };
+}
+
+// Values the user already typed are carried over when switching templates mid-edit
+export function applyTemplate(template: EntryTemplate, current: CustomField[]): CustomField[] {
+  const fromTemplate = template.fields.map((field) => {
+    const match = current.find((existing) => existing.label === field.label && existing.type === field.type);
+    return match ?? createCustomField(field.label, field.type);
+  });
+  const extra = current.filter((existing) => existing.value && !fromTemplate.includes(existing));
+  return [...fromTemplate, ...extra];
+}
@@ -0,0 +1,302 @@
+import { DocumentData, collection, deleteField, doc, getDocs, writeBatch } from 'firebase/firestore';
+import { StoredPassword, passwordsRepository, storedPasswordSchema } from '@/data/passwords';
+import { EntityChanges } from '@/data/repository';
+import { db } from '@/lib/firebase';
+import { EncryptedPayload, decryptJson, encryptJson } from '@/lib/crypto';
+import { StrengthScore, estimateStrength } from '@/lib/passwordStrength';
+
+export type SecretKind = 'login' | 'ssh-key' | 'gpg-key' | 'api-token';
+
+export type CustomFieldType = 'text' | 'hidden' | 'url' | 'date' | 'totp';
+
+export interface CustomField {
+  id: string;
+  label: string;
+  type: CustomFieldType;
+  value: string;
+}
+
+export interface Password {
+  id: string;
+  // Entries saved before typed secrets existed have no kind and are logins
+  kind?: SecretKind;
+  title: string;
+  username: string;
+  password: string;
+  website?: string;
+  totpSecret?: string;
+  customFields?: CustomField[];
+  scopes?: string[];
+  // ISO date (yyyy-MM-dd) after which an API token stops working
+  expiresAt?: string;
+  category: string;
+  strength: StrengthScore;
+  // Overrides the category's rotation policy; 0 opts the entry out of rotation
+  rotationDays?: number;
+  createdAt: Date;
+  updatedAt?: Date;
+  // Only moves when the secret itself changes, unlike updatedAt
+  lastChangedAt?: Date;
+}
+
+export type PasswordSecret = Pick<
+  Password,
+  'kind' | 'title' | 'username' | 'password' | 'website' | 'totpSecret' | 'customFields' | 'scopes' | 'expiresAt'
+> & {
+  strength?: StrengthScore;
+};
+
+export interface PasswordHistoryEntry {
+  id: string;
+  password: string;
+  changedAt: Date;
+}
+
+export const categories = ['Social Media', 'Email', 'Banking', 'Shopping', 'Work', 'Entertainment', 'Other'];
+
+export const customFieldTypeLabels: Record<CustomFieldType, string> = {
+  text: 'Text',
+  hidden: 'Hidden',
+  url: 'URL',
+  date: 'Date',
+  totp: 'One-time code (TOTP)',
+};
+
+export const secretKindLabels: Record<SecretKind, string> = {
+  login: 'Login',
+  'ssh-key': 'SSH key',
+  'gpg-key': 'GPG key',
+  'api-token': 'API token',
+};
+
+// Keys are pasted as multi-line blocks rather than typed into a single-line field
+export function isMultilineKind(kind: SecretKind | undefined): boolean {
+  return kind === 'ssh-key' || kind === 'gpg-key';
+}
+
+export function getSecretLabel(kind: SecretKind | undefined): string {
+  if (isMultilineKind(kind)) return 'Private key';
+  return kind === 'api-token' ? 'Token' : 'Password';
+}
+
+export function isTokenExpired(pw: Pick<Password, 'expiresAt'>, now = new Date()): boolean {
+  return !!pw.expiresAt && new Date(`${pw.expiresAt}T23:59:59`) < now;
+}
+
+// Firestore rejects batches larger than 500 writes
+const BATCH_SIZE = 400;
+
+// The fields that are encrypted together; everything else on an entry is stored in the clear
+export function toPasswordSecret({
+  kind,
+  title,
+  username,
+  password,
+  website,
+  totpSecret,
+  customFields,
+  scopes,
+  expiresAt,
+}: Password): PasswordSecret {
+  return { kind, title, username, password, website, totpSecret, customFields, scopes, expiresAt };
+}
+
+export function encryptPasswordSecret(key: CryptoKey, secret: PasswordSecret): Promise<EncryptedPayload> {
+  return encryptJson<PasswordSecret>(key, { ...secret, strength: estimateStrength(secret.password).score });
+}
+
+export async function decryptPasswordDoc(key: CryptoKey, data: StoredPassword): Promise<Password> {
+  const { id } = data;
+  let secret: PasswordSecret;
+
+  if (data.encrypted) {
+    secret = await decryptJson<PasswordSecret>(key, data.encrypted);
+  } else {
+    // Entries saved before encryption was introduced are re-written as ciphertext on first read
+    secret = {
+      title: data.title,
+      username: data.username,
+      password: data.password,
+      website: data.website,
+    };
+    await passwordsRepository.update(id, {
+      encrypted: await encryptPasswordSecret(key, secret),
+      title: deleteField(),
+      username: deleteField(),
+      password: deleteField(),
+      website: deleteField(),
+    });
+  }
+
+  // The document id always wins over anything stored inside the payload
+  return {
+    ...secret,
+    id,
+    strength: secret.strength ?? estimateStrength(secret.password).score,
+    category: data.category,
+    rotationDays: data.rotationDays,
+    createdAt: data.createdAt,
+    updatedAt: data.updatedAt,
+    lastChangedAt: data.lastChangedAt,
+  };
+}
+
+export async function getPasswordEntries(userId: string, key: CryptoKey): Promise<Password[]> {
+  const stored = await passwordsRepository.list(userId);
+  const results = await Promise.allSettled(stored.map((data) => decryptPasswordDoc(key, data)));
+  return results
+    .filter((result): result is PromiseFulfilledResult<Password> => result.status === 'fulfilled')
+    .map((result) => result.value);
+}
+
+export async function addPasswordsInBatches(
+  userId: string,
+  key: CryptoKey,
+  entries: (PasswordSecret & {
+    category: string;
+    rotationDays?: number;
+    createdAt?: Date;
+    updatedAt?: Date;
+    lastChangedAt?: Date;
+  })[],
+  onProgress?: (written: number) => void
+): Promise<void> {
+  for (let start = 0; start < entries.length; start += BATCH_SIZE) {
+    const batch = writeBatch(db);
+    const chunk = entries.slice(start, start + BATCH_SIZE);
+
+    for (const { category, rotationDays, createdAt, updatedAt, lastChangedAt, ...secret } of chunk) {
+      batch.set(
+        passwordsRepository.ref(),
+        passwordsRepository.parse({
+          userId,
+          encrypted: await encryptPasswordSecret(key, secret),
+          category,
+          ...(rotationDays !== undefined && { rotationDays }),
+          createdAt: createdAt ?? new Date(),
+          ...(updatedAt && { updatedAt }),
+          lastChangedAt: lastChangedAt ?? createdAt ?? new Date(),
+        })
+      );
+    }
+
+    await batch.commit();
+    onProgress?.(start + chunk.length);
+  }
+}
+
+export async function deletePasswordsInBatches(ids: string[]): Promise<void> {
+  for (const id of ids) {
+    const history = await getDocs(collection(db, 'passwords', id, 'history'));
+    if (history.empty) continue;
+
+    const batch = writeBatch(db);
+    history.docs.forEach((historyDoc) => batch.delete(historyDoc.ref));
+    await batch.commit();
+  }
+
+  for (let start = 0; start < ids.length; start += BATCH_SIZE) {
+    const batch = writeBatch(db);
+    ids.slice(start, start + BATCH_SIZE).forEach((id) => batch.delete(passwordsRepository.ref(id)));
+    await batch.commit();
+  }
+}
+
+// Pushes the previous value into the entry's history subcollection in the same batch
+// as the update, so a rotation can never overwrite a password without keeping it.
+export async function updatePasswordEntry(
+  key: CryptoKey,
+  existing: Password,
+  secret: PasswordSecret,
+  changes: EntityChanges<typeof storedPasswordSchema>
+): Promise<void> {
+  const batch = writeBatch(db);
+  const entryRef = passwordsRepository.ref(existing.id);
+  const now = new Date();
+  const passwordChanged = existing.password !== secret.password;
+
+  batch.update(
+    entryRef,
+    passwordsRepository.parseChanges({
+      ...changes,
+      encrypted: await encryptPasswordSecret(key, secret),
+      updatedAt: now,
+      ...(passwordChanged && { lastChangedAt: now }),
+    })
+  );
+
+  if (passwordChanged) {
+    batch.set(doc(collection(entryRef, 'history')), {
+      encrypted: await encryptJson(key, { password: existing.password }),
+      changedAt: now,
+    });
+  }
+
+  await batch.commit();
+}
+
+export async function decryptHistoryDoc(key: CryptoKey, id: string, data: DocumentData): Promise<PasswordHistoryEntry> {
+  const { password } = await decryptJson<{ password: string }>(key, data.encrypted as EncryptedPayload);
+  return { id, password, changedAt: data.changedAt?.toDate() };
+}
+
+export async function deletePasswordEntry(id: string): Promise<void> {
+  const history = await getDocs(collection(db, 'passwords', id, 'history'));
+  const batch = writeBatch(db);
+  history.docs.forEach((historyDoc) => batch.delete(historyDoc.ref));
+  batch.delete(passwordsRepository.ref(id));
+  await batch.commit();
+}
+
+// Folds duplicate entries into the one being kept. Their passwords and history move into the
+// kept entry's history so nothing is lost, and fields missing from the kept entry are filled in.
+export async function mergePasswordEntries(key: CryptoKey, keep: Password, others: Password[]): Promise<void> {
+  const batch = writeBatch(db);
+  const keepRef = passwordsRepository.ref(keep.id);
+  const seenFields = new Set(keep.customFields?.map((field) => `${field.label}\n${field.value}`));
+  const customFields = [...(keep.customFields ?? [])];
+  const seenPasswords = new Set([keep.password]);
+
+  for (const other of others) {
+    other.customFields?.forEach((field) => {
+      if (seenFields.has(`${field.label}\n${field.value}`)) return;
+      seenFields.add(`${field.label}\n${field.value}`);
+      customFields.push(field);
+    });
+
+    if (!seenPasswords.has(other.password)) {
+      seenPasswords.add(other.password);
+      batch.set(doc(collection(keepRef, 'history')), {
+        encrypted: await encryptJson(key, { password: other.password }),
+        changedAt: other.updatedAt ?? other.createdAt ?? new Date(),
+      });
+    }
+
+    const history = await getDocs(collection(db, 'passwords', other.id, 'history'));
+    history.docs.forEach((historyDoc) => {
+      batch.set(doc(collection(keepRef, 'history')), historyDoc.data());
+      batch.delete(historyDoc.ref);
+    });
+    batch.delete(passwordsRepository.ref(other.id));
+  }
+
+  batch.update(
+    keepRef,
+    passwordsRepository.parseChanges({
+      encrypted: await encryptPasswordSecret(key, {
+        kind: keep.kind,
+        title: keep.title,
+        username: keep.username,
+        password: keep.password,
+        website: keep.website || others.find((other) => other.website)?.website,
+        totpSecret: keep.totpSecret || others.find((other) => other.totpSecret)?.totpSecret,
+        customFields: customFields.length > 0 ? customFields : undefined,
+        scopes: keep.scopes,
+        expiresAt: keep.expiresAt,
+      }),
+      updatedAt: new Date(),
+    })
+  );
+
+  await batch.commit();
+}
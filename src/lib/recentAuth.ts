@@ -0,0 +1,21 @@
+import { auth } from '@/lib/firebase';
+import { useReauthStore } from '@/stores/reauthStore';
+
+// How long a sign-in counts as recent enough for sensitive actions
+export const RECENT_AUTH_MAX_AGE_MS = 5 * 60 * 1000;
+
+async function getAuthAge(): Promise<number> {
+  const user = auth.currentUser;
+  if (!user) return Infinity;
+
+  const { authTime } = await user.getIdTokenResult();
+  return Date.now() - new Date(authTime).getTime();
+}
+
+// Resolves true straight away after a recent sign-in. Otherwise asks for the account password
+// or a second factor, and resolves false if the user cancels.
+export async function requireRecentAuth(description?: string): Promise<boolean> {
+  if (!auth.currentUser) return false;
+  if ((await getAuthAge()) < RECENT_AUTH_MAX_AGE_MS) return true;
+  return useReauthStore.getState().request(description);
+}
@@ -0,0 +1,47 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { DEFAULT_RETURN_PATH, buildAuthPath, getReturnPath, getSafeReturnPath } from '@/lib/returnTo';
+
+beforeEach(() => {
+  vi.stubGlobal('window', { location: { origin: 'https://app.example.com' } });
+  return () => vi.unstubAllGlobals();
+});
+
+describe('getSafeReturnPath', () => {
+  it('keeps same-origin paths with their query and hash', () => {
+    expect(getSafeReturnPath('/passwords?q=bank#top')).toBe('/passwords?q=bank#top');
+  });
+
+  it.each([
+    null,
+    undefined,
+    '',
+    'passwords',
+    'https://evil.example.com/',
+    '//evil.example.com',
+    '/\\evil.example.com',
+    'javascript:alert(1)',
+    '/auth',
+    '/auth?redirect=/passwords',
+  ])('rejects %s', (value) => {
+    expect(getSafeReturnPath(value)).toBeNull();
+  });
+
+  it('normalises paths that climb out of the root', () => {
+    expect(getSafeReturnPath('/../notes')).toBe('/notes');
+  });
+});
+
+describe('getReturnPath', () => {
+  it('falls back to the dashboard for unsafe values', () => {
+    expect(getReturnPath(new URLSearchParams('redirect=//evil.example.com'))).toBe(DEFAULT_RETURN_PATH);
+    expect(getReturnPath(new URLSearchParams('redirect=%2Fnotes'))).toBe('/notes');
+  });
+});
+
+describe('buildAuthPath', () => {
+  it('only carries a redirect when it is safe and not the default', () => {
+    expect(buildAuthPath('/notes?id=1')).toBe('/auth?redirect=%2Fnotes%3Fid%3D1');
+    expect(buildAuthPath(DEFAULT_RETURN_PATH)).toBe('/auth');
+    expect(buildAuthPath('//evil.example.com')).toBe('/auth');
+  });
+});
@@ -0,0 +1,29 @@
+// Where to send the user after signing in, carried in the ?redirect= parameter of /auth
+export const DEFAULT_RETURN_PATH = '/dashboard';
+
+const RETURN_PARAM = 'redirect';
+
+// Only same-origin paths are allowed back out, so the parameter cannot be used as an open redirect
+export function getSafeReturnPath(value: string | null | undefined): string | null {
+  if (!value || !value.startsWith('/') || value.startsWith('//') || value.includes('\\')) return null;
+
+  let url: URL;
+  try {
+    url = new URL(value, window.location.origin);
+  } catch {
+    return null;
+  }
+
+  if (url.origin !== window.location.origin || url.pathname === '/auth') return null;
+  return `${url.pathname}${url.search}${url.hash}`;
+}
+
+export function getReturnPath(searchParams: URLSearchParams): string {
+  return getSafeReturnPath(searchParams.get(RETURN_PARAM)) ?? DEFAULT_RETURN_PATH;
+}
+
+export function buildAuthPath(returnPath: string): string {
+  const safePath = getSafeReturnPath(returnPath);
+  if (!safePath || safePath === DEFAULT_RETURN_PATH) return '/auth';
+  return `/auth?${RETURN_PARAM}=${encodeURIComponent(safePath)}`;
+}
@@ -0,0 +1,143 @@
+import { User, signOut } from 'firebase/auth';
+import { writeBatch } from 'firebase/firestore';
+import { toast } from 'sonner';
+import { Session, sessionsRepository } from '@/data/sessions';
+import { auth, db } from '@/lib/firebase';
+import { clearStoredSignInEmail } from '@/lib/authProviders';
+import { useAuthStore } from '@/stores/authStore';
+import { useReauthStore } from '@/stores/reauthStore';
+
+// Identifies this browser's session record across reloads
+const SESSION_ID_KEY = 'sessionId';
+
+// Last-seen is only written this often so an open tab does not write on every focus
+export const LAST_SEEN_INTERVAL_MS = 5 * 60 * 1000;
+
+export function getCurrentSessionId(): string | null {
+  return window.localStorage.getItem(SESSION_ID_KEY);
+}
+
+// Reuses this browser's record when it still belongs to the same user, otherwise starts a new one.
+// Resolves to null when the record was revoked while this browser was offline or closed, in which
+// case it is signed out just as if the revocation had arrived live.
+export async function registerSession(user: User): Promise<string | null> {
+  const storedId = getCurrentSessionId();
+  if (storedId) {
+    const stored = await sessionsRepository.get(storedId).catch(() => null);
+    if (stored && stored.userId === user.uid) {
+      if (stored.revoked) {
+        await signOutRevokedSession(storedId);
+        return null;
+      }
+      await touchSession(storedId);
+      return storedId;
+    }
+  }
+
+  const now = new Date();
+  const id = await sessionsRepository.add({
+    userId: user.uid,
+    userAgent: navigator.userAgent,
+    createdAt: now,
+    lastSeenAt: now,
+    revoked: false,
+  });
+  window.localStorage.setItem(SESSION_ID_KEY, id);
+  return id;
+}
+
+export async function touchSession(id: string): Promise<void> {
+  await sessionsRepository.update(id, { lastSeenAt: new Date() });
+}
+
+// Only flags the record: Firebase cannot revoke one device's refresh token without revoking all of
+// them. Security rules keep the flag one-way, so the revoked device cannot clear it.
+export async function revokeSession(id: string): Promise<void> {
+  await sessionsRepository.update(id, { revoked: true, revokedAt: new Date() });
+}
+
+// Besides flagging the records, every refresh token on the account is revoked on the server, so
+// the other devices are signed out even if they ignore the flag. This device signs in again to
+// get a fresh token, or is signed out as well if the user declines.
+export async function revokeOtherSessions(sessions: Session[], currentId: string | null): Promise<void> {
+  const batch = writeBatch(db);
+  sessions
+    .filter((session) => session.id !== currentId && !session.revoked)
+    .forEach((session) =>
+      batch.update(
+        sessionsRepository.ref(session.id),
+        sessionsRepository.parseChanges({ revoked: true, revokedAt: new Date() })
+      )
+    );
+  await batch.commit();
+
+  const idToken = await auth.currentUser?.getIdToken();
+  const response = await fetch('/api/revoke-sessions', {
+    method: 'POST',
+    headers: { Authorization: `Bearer ${idToken}` },
+  });
+  if (!response.ok) {
+    throw new Error('Failed to sign out other devices');
+  }
+
+  if (!(await useReauthStore.getState().request('Sign in again to keep using this device.'))) {
+    useAuthStore.getState().lock();
+    if (currentId) await endSession(currentId).catch(() => undefined);
+    await signOut(auth);
+  }
+}
+
+// Removes this browser's record on a normal sign-out
+export async function endSession(id: string): Promise<void> {
+  window.localStorage.removeItem(SESSION_ID_KEY);
+  await sessionsRepository.remove(id);
+}
+
+// Drops what the app kept in this browser for the account. In-memory state goes with the sign-out.
+// Only the app's own keys are removed, so the sign-in throttle survives a revocation.
+export function clearLocalData(): void {
+  window.localStorage.removeItem(SESSION_ID_KEY);
+  clearStoredSignInEmail();
+}
+
+export async function signOutRevokedSession(id: string): Promise<void> {
+  useAuthStore.getState().lock();
+  await endSession(id).catch(() => undefined);
+  clearLocalData();
+  await signOut(auth);
+  toast.error('This device was signed out from another device');
+}
+
+export function describeUserAgent(userAgent: string): string {
+  const browser = /Edg\//.test(userAgent)
+    ? 'Edge'
+    : /OPR\/|Opera/.test(userAgent)
+    ? 'Opera'
+    : /Firefox\//.test(userAgent)
+    ? 'Firefox'
+    : /Chrome\//.test(userAgent)
+    ? 'Chrome'
+    : /Safari\//.test(userAgent)
+    ? 'Safari'
+    : 'Unknown browser';
+
+  const os = /iPhone|iPad|iPod/.test(userAgent)
+    ? 'iOS'
+    : /Android/.test(userAgent)
+    ? 'Android'
+    : /Windows/.test(userAgent)
+    ? 'Windows'
+    : /Mac OS X|Macintosh/.test(userAgent)
+    ? 'macOS'
+    : /CrOS/.test(userAgent)
+    ? 'ChromeOS'
+    : /Linux/.test(userAgent)
+    ? 'Linux'
+    : 'Unknown OS';
+
+  return `${browser} on ${os}`;
+}
+
+export function isMobileUserAgent(userAgent: string): boolean {
+  return /Mobi|Android|iPhone|iPad|iPod/.test(userAgent);
+}
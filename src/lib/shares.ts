@@ -0,0 +1,94 @@
+import { sharesRepository } from '@/data/shares';
+import { EncryptedPayload, decryptJson, encryptJson, exportKey, generateKey, importKey } from '@/lib/crypto';
+
+export interface SharedSecret {
+  title: string;
+  username?: string;
+  password: string;
+  website?: string;
+}
+
+export interface ShareOptions {
+  expiresInHours: number;
+  maxViews: number;
+}
+
+export interface OpenedShare {
+  secret: SharedSecret;
+  viewsLeft: number;
+  expiresAt: Date;
+}
+
+export const shareExpiryOptions = [
+  { value: 1, label: '1 hour' },
+  { value: 24, label: '1 day' },
+  { value: 24 * 7, label: '7 days' },
+];
+
+export const shareViewOptions = [1, 3, 5];
+
+// Only a hash of the key is stored, which lets the server turn away an incomplete link
+// without spending a view on it
+async function hashKey(encodedKey: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(encodedKey));
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+// The key is only ever placed in the URL fragment, which browsers never send to a server,
+// so the stored record alone cannot be decrypted.
+export async function createShare(userId: string, secret: SharedSecret, options: ShareOptions): Promise<string> {
+  const key = await generateKey();
+  const encodedKey = await exportKey(key);
+  const id = await sharesRepository.add({
+    userId,
+    payload: await encryptJson(key, secret),
+    keyHash: await hashKey(encodedKey),
+    maxViews: options.maxViews,
+    views: 0,
+    expiresAt: new Date(Date.now() + options.expiresInHours * 60 * 60 * 1000),
+    createdAt: new Date(),
+  });
+
+  return `${window.location.origin}/s/${id}#${encodedKey}`;
+}
+
+// Shares are only readable by their owner, so recipients go through the server, which counts views
+async function requestShare(body: { id: string; keyHash?: string; open: boolean }): Promise<Response> {
+  return fetch('/api/share', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+}
+
+export async function shareExists(id: string): Promise<boolean> {
+  const response = await requestShare({ id, open: false });
+  return response.ok;
+}
+
+export async function openShare(id: string, encodedKey: string): Promise<OpenedShare> {
+  let key: CryptoKey;
+  try {
+    key = await importKey(encodedKey);
+  } catch {
+    throw new Error('This link is incomplete. Ask the sender for the full link.');
+  }
+
+  const response = await requestShare({ id, keyHash: await hashKey(encodedKey), open: true });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(data.error ?? 'Failed to open this link');
+  }
+
+  let secret: SharedSecret;
+  try {
+    secret = await decryptJson<SharedSecret>(key, data.payload as EncryptedPayload);
+  } catch {
+    throw new Error('This link is incomplete. Ask the sender for the full link.');
+  }
+  return { secret, viewsLeft: data.viewsLeft, expiresAt: new Date(data.expiresAt) };
+}
+
+export async function revokeShare(id: string): Promise<void> {
+  await sharesRepository.remove(id);
+}
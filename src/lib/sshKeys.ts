@@ -0,0 +1,277 @@
+import { fromBase64, toBase64 } from '@/lib/crypto';
+
+export interface SshKeyInfo {
+  // e.g. "ED25519" or "RSA 4096"
+  type: string;
+  encrypted: boolean;
+  fingerprint?: string;
+  publicKey?: string;
+  comment?: string;
+}
+
+const OPENSSH_MAGIC = 'openssh-key-v1\0';
+
+const OIDS: Record<string, string> = {
+  '2a864886f70d010101': 'rsa',
+  '2a8648ce3d0201': 'ec',
+  '2b6570': 'ed25519',
+  '2a8648ce3d030107': 'nistp256',
+  '2b81040022': 'nistp384',
+  '2b81040023': 'nistp521',
+};
+
+const CURVE_BITS: Record<string, number> = { nistp256: 256, nistp384: 384, nistp521: 521 };
+
+class SshReader {
+  private offset = 0;
+
+  constructor(private bytes: Uint8Array) {}
+
+  uint32(): number {
+    if (this.offset + 4 > this.bytes.length) throw new Error('Truncated key');
+    const value = new DataView(this.bytes.buffer, this.bytes.byteOffset + this.offset, 4).getUint32(0);
+    this.offset += 4;
+    return value;
+  }
+
+  string(): Uint8Array {
+    const length = this.uint32();
+    if (this.offset + length > this.bytes.length) throw new Error('Truncated key');
+    const value = this.bytes.subarray(this.offset, this.offset + length);
+    this.offset += length;
+    return value;
+  }
+
+  text(): string {
+    return new TextDecoder().decode(this.string());
+  }
+}
+
+function sshString(value: Uint8Array | string): Uint8Array {
+  const bytes = typeof value === 'string' ? new TextEncoder().encode(value) : value;
+  const out = new Uint8Array(4 + bytes.length);
+  new DataView(out.buffer).setUint32(0, bytes.length);
+  out.set(bytes, 4);
+  return out;
+}
+
+function concat(...parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  parts.forEach((part) => {
+    out.set(part, offset);
+    offset += part.length;
+  });
+  return out;
+}
+
+function bitLength(value: Uint8Array): number {
+  const start = value.findIndex((byte) => byte !== 0);
+  if (start === -1) return 0;
+  return (value.length - start - 1) * 8 + Math.floor(Math.log2(value[start])) + 1;
+}
+
+// Describes a public key blob in the wire format used by authorized_keys and fingerprints
+async function describeBlob(blob: Uint8Array, comment?: string): Promise<SshKeyInfo> {
+  const reader = new SshReader(blob);
+  const keyType = reader.text();
+
+  let type = keyType;
+  if (keyType === 'ssh-ed25519') {
+    type = 'ED25519';
+  } else if (keyType === 'ssh-rsa') {
+    reader.string();
+    type = `RSA ${bitLength(reader.string())}`;
+  } else if (keyType.startsWith('ecdsa-sha2-')) {
+    const curve = reader.text();
+    type = `ECDSA ${CURVE_BITS[curve] ?? curve}`;
+  } else if (keyType.startsWith('sk-')) {
+    type = keyType.includes('ed25519') ? 'ED25519-SK' : 'ECDSA-SK';
+  }
+
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', blob));
+  return {
+    type,
+    encrypted: false,
+    fingerprint: `SHA256:${toBase64(digest).replace(/=+$/, '')}`,
+    publicKey: [keyType, toBase64(blob), comment].filter(Boolean).join(' '),
+    comment,
+  };
+}
+
+function readOpenSshComment(privateSection: Uint8Array, keyType: string): string | undefined {
+  const reader = new SshReader(privateSection);
+  reader.uint32();
+  reader.uint32();
+  reader.text();
+
+  const fieldCounts: Record<string, number> = { 'ssh-ed25519': 2, 'ssh-rsa': 6 };
+  const count = fieldCounts[keyType] ?? (keyType.startsWith('ecdsa-sha2-') ? 3 : -1);
+  if (count === -1) return undefined;
+
+  for (let i = 0; i < count; i++) reader.string();
+  return reader.text() || undefined;
+}
+
+async function parseOpenSsh(der: Uint8Array): Promise<SshKeyInfo> {
+  const magic = new TextDecoder().decode(der.subarray(0, OPENSSH_MAGIC.length));
+  if (magic !== OPENSSH_MAGIC) throw new Error('Not an OpenSSH key');
+
+  const reader = new SshReader(der.subarray(OPENSSH_MAGIC.length));
+  const cipher = reader.text();
+  reader.text();
+  reader.string();
+  reader.uint32();
+  // The public key is stored in the clear even when the private part is passphrase protected
+  const publicBlob = reader.string();
+  const privateSection = reader.string();
+
+  const keyType = new SshReader(publicBlob).text();
+  const comment = cipher === 'none' ? readOpenSshComment(privateSection, keyType) : undefined;
+  const info = await describeBlob(publicBlob, comment);
+  return { ...info, encrypted: cipher !== 'none' };
+}
+
+interface DerNode {
+  tag: number;
+  value: Uint8Array;
+  next: number;
+}
+
+function readDer(bytes: Uint8Array, offset = 0): DerNode {
+  const tag = bytes[offset];
+  let length = bytes[offset + 1];
+  let start = offset + 2;
+  if (length & 0x80) {
+    const lengthBytes = length & 0x7f;
+    length = 0;
+    for (let i = 0; i < lengthBytes; i++) length = length * 256 + bytes[start + i];
+    start += lengthBytes;
+  }
+  if (start + length > bytes.length) throw new Error('Truncated key');
+  return { tag, value: bytes.subarray(start, start + length), next: start + length };
+}
+
+function readDerChildren(node: DerNode): DerNode[] {
+  const children: DerNode[] = [];
+  let offset = 0;
+  while (offset < node.value.length) {
+    const child = readDer(node.value, offset);
+    children.push(child);
+    offset = child.next;
+  }
+  return children;
+}
+
+function hex(bytes: Uint8Array): string {
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+// PKCS#1 RSAPrivateKey: version, n, e, d, p, q, ...
+function rsaBlob(pkcs1: Uint8Array): Uint8Array {
+  const [, n, e] = readDerChildren(readDer(pkcs1));
+  return concat(sshString('ssh-rsa'), sshString(e.value), sshString(n.value));
+}
+
+// SEC1 ECPrivateKey: version, d, [0] curve, [1] public point
+function ecBlob(sec1: Uint8Array, curveOid?: Uint8Array): Uint8Array {
+  const children = readDerChildren(readDer(sec1));
+  const params = children.find((child) => child.tag === 0xa0);
+  const publicKey = children.find((child) => child.tag === 0xa1);
+  const curve = OIDS[hex(curveOid ?? (params ? readDer(params.value).value : new Uint8Array()))];
+  if (!curve || !publicKey) throw new Error('Unsupported curve');
+
+  // The BIT STRING starts with a byte counting unused bits
+  const point = readDer(publicKey.value).value.subarray(1);
+  return concat(sshString(`ecdsa-sha2-${curve}`), sshString(curve), sshString(point));
+}
+
+async function ed25519Blob(pkcs8: Uint8Array): Promise<Uint8Array> {
+  const key = await crypto.subtle.importKey('pkcs8', pkcs8, { name: 'Ed25519' }, true, ['sign']);
+  const jwk = await crypto.subtle.exportKey('jwk', key);
+  const publicKey = fromBase64((jwk.x ?? '').replace(/-/g, '+').replace(/_/g, '/').padEnd(44, '='));
+  return concat(sshString('ssh-ed25519'), sshString(publicKey));
+}
+
+// PKCS#8 PrivateKeyInfo: version, AlgorithmIdentifier { oid, params }, OCTET STRING key
+async function pkcs8Blob(pkcs8: Uint8Array): Promise<Uint8Array> {
+  const [, algorithm, key] = readDerChildren(readDer(pkcs8));
+  const [oid, params] = readDerChildren(algorithm);
+
+  switch (OIDS[hex(oid.value)]) {
+    case 'rsa':
+      return rsaBlob(key.value);
+    case 'ec':
+      return ecBlob(key.value, params?.value);
+    case 'ed25519':
+      return ed25519Blob(pkcs8);
+    default:
+      throw new Error('Unsupported key algorithm');
+  }
+}
+
+function readPem(text: string): { label: string; headers: string; body: Uint8Array } | null {
+  const match = text.match(/-----BEGIN ([A-Z0-9 ]+)-----([\s\S]*?)-----END \1-----/);
+  if (!match) return null;
+
+  // Legacy PEM keys may carry "Proc-Type: ..." headers separated from the body by a blank line
+  const lines = match[2].trim().split(/\r?\n/);
+  const headerEnd = lines.findIndex((line) => !line.trim());
+  const hasHeaders = headerEnd !== -1 && lines[0].includes(':');
+  return {
+    label: match[1],
+    headers: hasHeaders ? lines.slice(0, headerEnd).join('\n') : '',
+    body: fromBase64((hasHeaders ? lines.slice(headerEnd + 1) : lines).join('').replace(/\s/g, '')),
+  };
+}
+
+export function isPrivateKeyBlock(text: string): boolean {
+  return /-----BEGIN [A-Z0-9 ]*PRIVATE KEY( BLOCK)?-----/.test(text);
+}
+
+// Recognises OpenSSH, PKCS#1, PKCS#8 and SEC1 private keys as well as authorized_keys lines.
+// Returns null when the text is not a key at all.
+export async function parseSshKey(text: string): Promise<SshKeyInfo | null> {
+  const value = text.trim();
+
+  const publicLine = value.match(/^((?:ssh|ecdsa|sk)-[\w@.-]+)\s+([A-Za-z0-9+/=]+)(?:\s+(.*))?$/);
+  if (publicLine) {
+    try {
+      return await describeBlob(fromBase64(publicLine[2]), publicLine[3]);
+    } catch {
+      return null;
+    }
+  }
+
+  const pem = readPem(value);
+  if (!pem) return null;
+
+  const fallbackType: Record<string, string> = {
+    'OPENSSH PRIVATE KEY': 'OpenSSH',
+    'RSA PRIVATE KEY': 'RSA',
+    'EC PRIVATE KEY': 'ECDSA',
+    'PRIVATE KEY': 'PKCS#8',
+    'ENCRYPTED PRIVATE KEY': 'PKCS#8',
+  };
+  if (!(pem.label in fallbackType)) return null;
+
+  // Legacy PEM and PKCS#8 encryption hide the public key, so nothing can be derived
+  if (pem.label === 'ENCRYPTED PRIVATE KEY' || /ENCRYPTED/.test(pem.headers)) {
+    return { type: fallbackType[pem.label], encrypted: true };
+  }
+
+  try {
+    switch (pem.label) {
+      case 'OPENSSH PRIVATE KEY':
+        return await parseOpenSsh(pem.body);
+      case 'RSA PRIVATE KEY':
+        return await describeBlob(rsaBlob(pem.body));
+      case 'EC PRIVATE KEY':
+        return await describeBlob(ecBlob(pem.body));
+      default:
+        return await describeBlob(await pkcs8Blob(pem.body));
+    }
+  } catch {
+    return { type: fallbackType[pem.label], encrypted: false };
+  }
+}
@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { TotpConfig, base32Decode, generateTotp, getTotpRemaining, parseTotpInput } from '@/lib/totp';
+
+// The shared secrets from RFC 6238 appendix B, base32 encoded
+const RFC_SECRETS: Record<TotpConfig['algorithm'], string> = {
+  SHA1: 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ',
+  SHA256: 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQGEZA',
+  SHA512:
+    'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQGEZDGNA',
+};
+
+describe('base32Decode', () => {
+  it('decodes case-insensitively and ignores spaces and padding', () => {
+    expect(new TextDecoder().decode(base32Decode('mzxw 6ytb oi======'))).toBe('foobar');
+  });
+
+  it('rejects characters outside the alphabet', () => {
+    expect(() => base32Decode('ABC1')).toThrow('Secret is not valid base32');
+  });
+});
+
+describe('generateTotp', () => {
+  it.each([
+    [59, 'SHA1', '94287082'],
+    [1111111109, 'SHA1', '07081804'],
+    [2000000000, 'SHA1', '69279037'],
+    [20000000000, 'SHA1', '65353130'],
+    [59, 'SHA256', '46119246'],
+    [1234567890, 'SHA256', '91819424'],
+    [59, 'SHA512', '90693936'],
+    [2000000000, 'SHA512', '38618901'],
+  ] as const)('matches the RFC 6238 vector at %i seconds with %s', async (seconds, algorithm, code) => {
+    const config: TotpConfig = { secret: RFC_SECRETS[algorithm], algorithm, digits: 8, period: 30 };
+    expect(await generateTotp(config, seconds * 1000)).toBe(code);
+  });
+
+  it('pads six-digit codes with leading zeros', async () => {
+    const config: TotpConfig = { secret: RFC_SECRETS.SHA1, algorithm: 'SHA1', digits: 6, period: 30 };
+    expect(await generateTotp(config, 1111111109 * 1000)).toBe('081804');
+  });
+});
+
+describe('getTotpRemaining', () => {
+  it('counts down to the end of the period', () => {
+    const config: TotpConfig = { secret: RFC_SECRETS.SHA1, algorithm: 'SHA1', digits: 6, period: 30 };
+    expect(getTotpRemaining(config, 59_000)).toBe(1);
+    expect(getTotpRemaining(config, 60_000)).toBe(30);
+  });
+});
+
+describe('parseTotpInput', () => {
+  it('accepts a bare secret with the usual defaults', () => {
+    expect(parseTotpInput(' jbsw y3dp ')).toEqual({ secret: 'JBSWY3DP', algorithm: 'SHA1', digits: 6, period: 30 });
+  });
+
+  it('reads an otpauth URI', () => {
+    expect(
+      parseTotpInput('otpauth://totp/Example:alice%40example.com?secret=jbswy3dp&issuer=Example&algorithm=SHA256&digits=8&period=60')
+    ).toEqual({
+      secret: 'JBSWY3DP',
+      algorithm: 'SHA256',
+      digits: 8,
+      period: 60,
+      issuer: 'Example',
+      account: 'alice@example.com',
+    });
+  });
+
+  it('takes the issuer from the label when the parameter is missing', () => {
+    expect(parseTotpInput('otpauth://totp/Example:alice?secret=JBSWY3DP')).toMatchObject({
+      issuer: 'Example',
+      account: 'alice',
+    });
+  });
+
+  it.each([
+    ['', 'Secret is too short'],
+    ['A', 'Secret is too short'],
+    ['not base32!', 'Secret is not valid base32'],
+    ['otpauth://hotp/Example?secret=JBSWY3DP', 'Only time-based (TOTP) codes are supported'],
+    ['otpauth://totp/Example', 'The otpauth URI has no secret'],
+    ['otpauth://totp/Example?secret=JBSWY3DP&algorithm=MD5', 'Unsupported algorithm MD5'],
+    ['otpauth://totp/Example?secret=JBSWY3DP&digits=7', 'Codes must be 6 or 8 digits'],
+    ['otpauth://totp/Example?secret=JBSWY3DP&period=0', 'Invalid period'],
+  ])('rejects %j', (input, message) => {
+    expect(() => parseTotpInput(input)).toThrow(message);
+  });
+});
@@ -0,0 +1,149 @@
+import jsQR from 'jsqr';
+
+export type TotpAlgorithm = 'SHA1' | 'SHA256' | 'SHA512';
+
+export interface TotpConfig {
+  secret: string;
+  algorithm: TotpAlgorithm;
+  digits: 6 | 8;
+  period: number;
+  issuer?: string;
+  account?: string;
+}
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+const HASH_NAMES: Record<TotpAlgorithm, string> = {
+  SHA1: 'SHA-1',
+  SHA256: 'SHA-256',
+  SHA512: 'SHA-512',
+};
+
+export function base32Decode(value: string): Uint8Array {
+  const cleaned = value.toUpperCase().replace(/[\s=-]/g, '');
+  const bytes: number[] = [];
+  let buffer = 0;
+  let bits = 0;
+
+  for (const char of cleaned) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error('Secret is not valid base32');
+    }
+    buffer = (buffer << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bits -= 8;
+      bytes.push((buffer >> bits) & 0xff);
+    }
+  }
+
+  return new Uint8Array(bytes);
+}
+
+// HMAC refuses an empty key, so a secret like "A" that decodes to no bytes is rejected up front
+function validateSecret(secret: string): void {
+  if (base32Decode(secret).length === 0) {
+    throw new Error('Secret is too short');
+  }
+}
+
+// Accepts either a bare base32 secret or an otpauth://totp/ URI as exported by most authenticators
+export function parseTotpInput(input: string): TotpConfig {
+  const value = input.trim();
+
+  if (!value.toLowerCase().startsWith('otpauth://')) {
+    validateSecret(value);
+    return { secret: value.replace(/\s/g, '').toUpperCase(), algorithm: 'SHA1', digits: 6, period: 30 };
+  }
+
+  const url = new URL(value);
+  if (url.host.toLowerCase() !== 'totp') {
+    throw new Error('Only time-based (TOTP) codes are supported');
+  }
+
+  const params = url.searchParams;
+  const secret = params.get('secret');
+  if (!secret) {
+    throw new Error('The otpauth URI has no secret');
+  }
+  validateSecret(secret);
+
+  const algorithm = (params.get('algorithm') || 'SHA1').toUpperCase().replace('-', '') as TotpAlgorithm;
+  if (!(algorithm in HASH_NAMES)) {
+    throw new Error(`Unsupported algorithm ${algorithm}`);
+  }
+
+  const digits = Number(params.get('digits') || 6);
+  if (digits !== 6 && digits !== 8) {
+    throw new Error('Codes must be 6 or 8 digits');
+  }
+
+  const period = Number(params.get('period') || 30);
+  if (!Number.isInteger(period) || period <= 0) {
+    throw new Error('Invalid period');
+  }
+
+  const label = decodeURIComponent(url.pathname.replace(/^\/+/, ''));
+  const [labelIssuer, account] = label.includes(':') ? label.split(/:(.*)/s) : [undefined, label];
+
+  return {
+    secret: secret.toUpperCase(),
+    algorithm,
+    digits,
+    period,
+    issuer: params.get('issuer') || labelIssuer,
+    account: account?.trim() || undefined,
+  };
+}
+
+export async function decodeQrImage(file: File): Promise<string> {
+  const bitmap = await createImageBitmap(file);
+  const canvas = document.createElement('canvas');
+  canvas.width = bitmap.width;
+  canvas.height = bitmap.height;
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Failed to read image');
+  }
+
+  context.drawImage(bitmap, 0, 0);
+  const image = context.getImageData(0, 0, bitmap.width, bitmap.height);
+  const code = jsQR(image.data, image.width, image.height);
+  if (!code) {
+    throw new Error('No QR code found in image');
+  }
+
+  return code.data;
+}
+
+export async function generateTotp(config: TotpConfig, timestamp = Date.now()): Promise<string> {
+  const counter = Math.floor(timestamp / 1000 / config.period);
+  const message = new ArrayBuffer(8);
+  const view = new DataView(message);
+  view.setUint32(0, Math.floor(counter / 0x100000000));
+  view.setUint32(4, counter >>> 0);
+
+  const key = await crypto.subtle.importKey(
+    'raw',
+    base32Decode(config.secret),
+    { name: 'HMAC', hash: HASH_NAMES[config.algorithm] },
+    false,
+    ['sign']
+  );
+  const hmac = new Uint8Array(await crypto.subtle.sign('HMAC', key, message));
+
+  // Dynamic truncation as described in RFC 4226 section 5.3
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary =
+    ((hmac[offset] & 0x7f) << 24) |
+    (hmac[offset + 1] << 16) |
+    (hmac[offset + 2] << 8) |
+    hmac[offset + 3];
+
+  return String(binary % 10 ** config.digits).padStart(config.digits, '0');
+}
+
+export function getTotpRemaining(config: TotpConfig, timestamp = Date.now()): number {
+  return config.period - (Math.floor(timestamp / 1000) % config.period);
+}
@@ -0,0 +1,9 @@
+import { VaultItem } from '@/data/vault';
+
+export const vaultTypeLabels: Record<VaultItem['type'], string> = {
+  card: 'Card',
+  document: 'Document',
+  photo: 'Photo',
+  video: 'Video',
+  other: 'Other',
+};
@@ -0,0 +1,287 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { FirebaseError } from 'firebase/app';
+import { updatePassword, verifyBeforeUpdateEmail } from 'firebase/auth';
+import { z } from 'zod';
+import { deleteAccount } from '@/lib/account';
+import { accountPasswordSchema } from '@/lib/accountPolicy';
+import { getLinkedProviders } from '@/lib/authProviders';
+import { useAuthStore } from '@/stores/authStore';
+import { ReauthDialog } from '@/components/auth/ReauthDialog';
+import { StrengthMeter } from '@/components/passwords/StrengthMeter';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { toast } from 'sonner';
+import { Loader2, Lock, Mail, Trash2 } from 'lucide-react';
+
+const emailSchema = z.string().email('Please enter a valid email');
+
+const DELETE_CONFIRMATION = 'DELETE';
+
+interface PendingAction {
+  description: string;
+  run: () => Promise<void>;
+}
+
+function getErrorMessage(error: unknown, fallback: string): string {
+  const code = error instanceof FirebaseError ? error.code : undefined;
+  return code === 'auth/email-already-in-use'
+    ? 'This email is already registered'
+    : code === 'auth/invalid-email'
+    ? 'Please enter a valid email'
+    : code === 'auth/weak-password'
+    ? 'That password is too weak'
+    : fallback;
+}
+
+export default function AccountSettings() {
+  const { user } = useAuthStore();
+  const navigate = useNavigate();
+  const [newEmail, setNewEmail] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [confirmDelete, setConfirmDelete] = useState(false);
+  const [deleteConfirmation, setDeleteConfirmation] = useState('');
+  const [pendingAction, setPendingAction] = useState<PendingAction | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const hasPassword = !!user && getLinkedProviders(user).includes('password');
+
+  // Every change here asks for the password (or provider and second factor) first
+  const handleReauthenticated = async () => {
+    const action = pendingAction;
+    setPendingAction(null);
+    if (!action) return;
+
+    setBusy(true);
+    try {
+      await action.run();
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleChangeEmail = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user) return;
+
+    const validation = emailSchema.safeParse(newEmail.trim());
+    if (!validation.success) {
+      toast.error(validation.error.errors[0].message);
+      return;
+    }
+    if (validation.data.toLowerCase() === user.email?.toLowerCase()) {
+      toast.error('That is already your email');
+      return;
+    }
+
+    setPendingAction({
+      description: 'Confirm it is you before changing your email.',
+      run: async () => {
+        try {
+          await verifyBeforeUpdateEmail(user, validation.data);
+          toast.success(`Verification email sent to ${validation.data}. Your email changes once you open the link.`);
+          setNewEmail('');
+        } catch (error) {
+          toast.error(getErrorMessage(error, 'Failed to change email'));
+        }
+      },
+    });
+  };
+
+  const handleChangePassword = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user) return;
+
+    const validation = accountPasswordSchema.safeParse(newPassword);
+    if (!validation.success) {
+      toast.error(validation.error.errors[0].message);
+      return;
+    }
+    if (newPassword !== confirmPassword) {
+      toast.error('Passwords do not match');
+      return;
+    }
+
+    setPendingAction({
+      description: 'Confirm it is you before changing your password.',
+      run: async () => {
+        try {
+          await updatePassword(user, newPassword);
+          toast.success(hasPassword ? 'Password changed' : 'Password set');
+          setNewPassword('');
+          setConfirmPassword('');
+        } catch (error) {
+          toast.error(getErrorMessage(error, 'Failed to change password'));
+        }
+      },
+    });
+  };
+
+  const handleDeleteAccount = () => {
+    if (!user) return;
+
+    setConfirmDelete(false);
+    setDeleteConfirmation('');
+    setPendingAction({
+      description: 'Confirm it is you to permanently delete your account.',
+      run: async () => {
+        try {
+          const { skippedUploads } = await deleteAccount(user);
+          if (skippedUploads > 0) {
+            toast.warning(`${skippedUploads} older uploads could not be removed automatically`);
+          }
+          toast.success('Your account has been deleted');
+          navigate('/auth');
+        } catch (error) {
+          toast.error('Failed to delete account');
+        }
+      },
+    });
+  };
+
+  return (
+    <div className="p-6 lg:p-8 max-w-3xl mx-auto">
+      <div className="mb-8">
+        <h1 className="text-2xl font-bold text-foreground mb-1">Account</h1>
+        <p className="text-muted-foreground">Manage your sign-in details</p>
+      </div>
+
+      <Card className="mb-6">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-lg">
+            <Mail className="w-5 h-5 text-muted-foreground" />
+            Email
+          </CardTitle>
+          <CardDescription className="flex items-center gap-2">
+            {user?.email}
+            {user?.emailVerified ? <Badge variant="secondary">Verified</Badge> : <Badge variant="outline">Not verified</Badge>}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleChangeEmail} className="flex flex-col sm:flex-row gap-3">
+            <Input
+              type="email"
+              value={newEmail}
+              onChange={(e) => setNewEmail(e.target.value)}
+              placeholder="New email address"
+              required
+            />
+            <Button type="submit" disabled={busy} className="shrink-0">
+              Change email
+            </Button>
+          </form>
+          <p className="text-xs text-muted-foreground mt-2">
+            We send a link to the new address. Your email only changes once you open it.
+          </p>
+        </CardContent>
+      </Card>
+
+      <Card className="mb-6">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-lg">
+            <Lock className="w-5 h-5 text-muted-foreground" />
+            {hasPassword ? 'Password' : 'Set a password'}
+          </CardTitle>
+          <CardDescription>
+            {hasPassword
+              ? 'Your account password is separate from your master password.'
+              : 'Add a password so you can also sign in with your email.'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleChangePassword} className="space-y-3">
+            <div>
+              <Input
+                type="password"
+                value={newPassword}
+                onChange={(e) => setNewPassword(e.target.value)}
+                placeholder="New password"
+                autoComplete="new-password"
+                required
+              />
+              <StrengthMeter password={newPassword} />
+            </div>
+            <Input
+              type="password"
+              value={confirmPassword}
+              onChange={(e) => setConfirmPassword(e.target.value)}
+              placeholder="Confirm new password"
+              autoComplete="new-password"
+              required
+            />
+            <Button type="submit" disabled={busy}>
+              {hasPassword ? 'Change password' : 'Set password'}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      <Card className="border-destructive/40">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-lg text-destructive">
+            <Trash2 className="w-5 h-5" />
+            Delete account
+          </CardTitle>
+          <CardDescription>
+            Permanently deletes your passwords, notes, todos, vault files, expenses and income. This cannot be undone.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Button variant="destructive" onClick={() => setConfirmDelete(true)} disabled={busy}>
+            {busy ? <Loader2 className="w-4 h-4 animate-spin" /> : <Trash2 className="w-4 h-4" />}
+            Delete account
+          </Button>
+        </CardContent>
+      </Card>
+
+      <AlertDialog
+        open={confirmDelete}
+        onOpenChange={(open) => {
+          setConfirmDelete(open);
+          if (!open) setDeleteConfirmation('');
+        }}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete your account?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Everything you have stored will be deleted, including uploaded files. Type {DELETE_CONFIRMATION} to
+              confirm.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <Input value={deleteConfirmation} onChange={(e) => setDeleteConfirmation(e.target.value)} />
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDeleteAccount}
+              disabled={deleteConfirmation !== DELETE_CONFIRMATION}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete account
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <ReauthDialog
+        open={!!pendingAction}
+        onOpenChange={(open) => !open && setPendingAction(null)}
+        onReauthenticated={handleReauthenticated}
+        description={pendingAction?.description}
+      />
+    </div>
+  );
+}
@@ -1,17 +1,39 @@
 import { useState, useEffect } from 'react';
-import { useNavigate } from 'react-router-dom';
-import { 
-  signInWithEmailAndPassword, 
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { FirebaseError } from 'firebase/app';
+import {
+  MultiFactorResolver,
+  UserCredential,
+  signInWithEmailAndPassword,
   createUserWithEmailAndPassword,
-  sendPasswordResetEmail 
+  sendEmailVerification,
+  sendPasswordResetEmail
 } from 'firebase/auth';
 import { auth } from '@/lib/firebase';
+import { getMfaResolver } from '@/lib/mfa';
+import { accountPasswordSchema } from '@/lib/accountPolicy';
+import { getReturnPath } from '@/lib/returnTo';
+import { clearLoginFailures, getLoginWait, recordLoginFailure } from '@/lib/loginThrottle';
+import {
+  PendingLink,
+  SocialProviderId,
+  completeEmailLinkSignIn,
+  completePendingLink,
+  getPendingLink,
+  getStoredSignInEmail,
+  isEmailSignInLink,
+  sendEmailSignInLink,
+  signInWithSocial,
+} from '@/lib/authProviders';
 import { useAuthStore } from '@/stores/authStore';
+import { MfaChallenge } from '@/components/auth/MfaChallenge';
+import { SocialSignInButtons } from '@/components/auth/SocialSignInButtons';
+import { StrengthMeter } from '@/components/passwords/StrengthMeter';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { toast } from 'sonner';
-import { Loader2, Mail, Lock, ArrowRight, Eye, EyeOff } from 'lucide-react';
+import { Loader2, Mail, Lock, ArrowRight, Eye, EyeOff, Link2 } from 'lucide-react';
 import { z } from 'zod';
 
 const authSchema = z.object({
@@ -19,24 +41,155 @@ const authSchema = z.object({
   password: z.string().min(6, 'Password must be at least 6 characters'),
 });
 
+const signupSchema = authSchema.extend({
+  password: accountPasswordSchema,
+});
+
+const credentialErrors = ['auth/invalid-credential', 'auth/wrong-password', 'auth/user-not-found', 'auth/too-many-requests'];
+
+type AuthMode = 'login' | 'signup' | 'reset' | 'link' | 'link-confirm';
+
+const titles: Record<AuthMode, string> = {
+  login: 'Welcome back',
+  signup: 'Create account',
+  reset: 'Reset password',
+  link: 'Sign in with a link',
+  'link-confirm': 'Confirm your email',
+};
+
+const descriptions: Record<AuthMode, string> = {
+  login: 'Sign in to access your personal manager',
+  signup: 'Start securing your digital life',
+  reset: 'Enter your email to reset your password',
+  link: 'We will email you a link that signs you in without a password',
+  'link-confirm': 'Enter the email address the sign-in link was sent to',
+};
+
+const submitLabels: Record<AuthMode, string> = {
+  login: 'Sign in',
+  signup: 'Create account',
+  reset: 'Send reset email',
+  link: 'Send sign-in link',
+  'link-confirm': 'Continue',
+};
+
+function getAuthErrorMessage(code: string | undefined): string {
+  return code === 'auth/email-already-in-use'
+    ? 'This email is already registered'
+    : code === 'auth/invalid-credential'
+    ? 'Invalid email or password'
+    : code === 'auth/user-not-found'
+    ? 'No account found with this email'
+    : code === 'auth/wrong-password'
+    ? 'Incorrect password'
+    : code === 'auth/popup-blocked'
+    ? 'The sign-in window was blocked. Allow pop-ups for this site and try again.'
+    : code === 'auth/invalid-action-code' || code === 'auth/expired-action-code'
+    ? 'This sign-in link has expired or was already used. Request a new one.'
+    : code === 'auth/invalid-email'
+    ? 'This email does not match the one the link was sent to'
+    : code === 'auth/credential-already-in-use'
+    ? 'That account is already connected to another user'
+    : code === 'auth/weak-password'
+    ? 'That password is too weak'
+    : code === 'auth/too-many-requests'
+    ? 'Too many attempts. Wait a few minutes or reset your password.'
+    : 'Something went wrong. Please try again.';
+}
+
 export default function Auth() {
-  const [mode, setMode] = useState<'login' | 'signup' | 'reset'>('login');
+  const [mode, setMode] = useState<AuthMode>(() => isEmailSignInLink(window.location.href) ? 'link-confirm' : 'login');
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [loading, setLoading] = useState(false);
   const [showPassword, setShowPassword] = useState(false);
+  const [mfaResolver, setMfaResolver] = useState<MultiFactorResolver | null>(null);
+  const [pendingLink, setPendingLink] = useState<PendingLink | null>(null);
+  const [linkSent, setLinkSent] = useState(false);
   const { user } = useAuthStore();
   const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const returnPath = getReturnPath(searchParams);
 
   useEffect(() => {
-    if (user) {
-      navigate('/dashboard');
+    if (user && !pendingLink) {
+      navigate(returnPath, { replace: true });
     }
-  }, [user, navigate]);
+  }, [user, pendingLink, navigate, returnPath]);
+
+  // Opening the link on the device that requested it signs in without asking for the email again
+  useEffect(() => {
+    const storedEmail = getStoredSignInEmail();
+    if (!isEmailSignInLink(window.location.href) || !storedEmail) return;
+
+    setLoading(true);
+    completeEmailLinkSignIn(storedEmail, window.location.href)
+      .then(() => {
+        window.history.replaceState(null, '', window.location.pathname);
+        toast.success('Welcome back!');
+      })
+      .catch((error) => {
+        const resolver = getMfaResolver(error);
+        if (resolver) {
+          setMfaResolver(resolver);
+          return;
+        }
+        toast.error(getAuthErrorMessage(error instanceof FirebaseError ? error.code : undefined));
+      })
+      .finally(() => setLoading(false));
+  }, []);
+
+  const finishSignIn = async (credential: UserCredential, message = 'Welcome back!') => {
+    if (pendingLink) {
+      try {
+        await completePendingLink(credential.user, pendingLink);
+        toast.success(`${pendingLink.providerName} is now connected to your account`);
+      } catch (error) {
+        toast.error(`Signed in, but ${pendingLink.providerName} could not be connected`);
+      }
+      setPendingLink(null);
+    }
+    toast.success(message);
+    navigate(returnPath, { replace: true });
+  };
+
+  const handleAuthError = (error: unknown) => {
+    const resolver = getMfaResolver(error);
+    if (resolver) {
+      setMfaResolver(resolver);
+      return;
+    }
+
+    // The email already belongs to another sign-in method, so sign in with that first and link afterwards
+    const pending = getPendingLink(error);
+    if (pending) {
+      setPendingLink(pending);
+      setEmail(pending.email ?? '');
+      setMode('login');
+      return;
+    }
+
+    const errorCode = error instanceof FirebaseError ? error.code : undefined;
+    if (errorCode === 'auth/popup-closed-by-user' || errorCode === 'auth/cancelled-popup-request') {
+      return;
+    }
+    toast.error(getAuthErrorMessage(errorCode));
+  };
+
+  const handleSocialSignIn = async (id: SocialProviderId) => {
+    setLoading(true);
+    try {
+      await finishSignIn(await signInWithSocial(id));
+    } catch (error) {
+      handleAuthError(error);
+    } finally {
+      setLoading(false);
+    }
+  };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    
+
     try {
       if (mode === 'reset') {
         setLoading(true);
@@ -47,34 +200,55 @@ export default function Auth() {
         return;
       }
 
-      const validation = authSchema.safeParse({ email, password });
+      if (mode === 'link' || mode === 'link-confirm') {
+        const validation = authSchema.shape.email.safeParse(email);
+        if (!validation.success) {
+          toast.error(validation.error.errors[0].message);
+          return;
+        }
+
+        setLoading(true);
+        if (mode === 'link') {
+          await sendEmailSignInLink(email, returnPath);
+          setLinkSent(true);
+        } else {
+          const credential = await completeEmailLinkSignIn(email, window.location.href);
+          window.history.replaceState(null, '', window.location.pathname);
+          await finishSignIn(credential);
+        }
+        return;
+      }
+
+      const validation = (mode === 'signup' ? signupSchema : authSchema).safeParse({ email, password });
       if (!validation.success) {
         toast.error(validation.error.errors[0].message);
         return;
       }
 
+      if (mode === 'login') {
+        const wait = getLoginWait(email);
+        if (wait > 0) {
+          toast.error(`Too many failed attempts. Try again in ${Math.ceil(wait / 1000)} seconds.`);
+          return;
+        }
+      }
+
       setLoading(true);
 
       if (mode === 'login') {
-        await signInWithEmailAndPassword(auth, email, password);
-        toast.success('Welcome back!');
+        const credential = await signInWithEmailAndPassword(auth, email, password);
+        clearLoginFailures(email);
+        await finishSignIn(credential);
       } else {
-        await createUserWithEmailAndPassword(auth, email, password);
-        toast.success('Account created successfully!');
+        const credential = await createUserWithEmailAndPassword(auth, email, password);
+        await sendEmailVerification(credential.user, { url: `${window.location.origin}${returnPath}` }).catch(() => toast.error('Failed to send verification email'));
+        await finishSignIn(credential, 'Account created. Check your inbox to verify your email.');
       }
-      
-      navigate('/dashboard');
-    } catch (error: any) {
-      const errorMessage = error.code === 'auth/email-already-in-use'
-        ? 'This email is already registered'
-        : error.code === 'auth/invalid-credential'
-        ? 'Invalid email or password'
-        : error.code === 'auth/user-not-found'
-        ? 'No account found with this email'
-        : error.code === 'auth/wrong-password'
-        ? 'Incorrect password'
-        : 'Something went wrong. Please try again.';
-      toast.error(errorMessage);
+    } catch (error) {
+      if (mode === 'login' && error instanceof FirebaseError && credentialErrors.includes(error.code)) {
+        recordLoginFailure(email);
+      }
+      handleAuthError(error);
     } finally {
       setLoading(false);
     }
@@ -95,99 +269,158 @@ export default function Auth() {
         <Card variant="elevated">
           <CardHeader className="text-center pb-4">
             <CardTitle>
-              {mode === 'login' ? 'Welcome back' : mode === 'signup' ? 'Create account' : 'Reset password'}
+              {mfaResolver ? 'Two-step verification' : titles[mode]}
             </CardTitle>
             <CardDescription>
-              {mode === 'login' 
-                ? 'Sign in to access your personal manager' 
-                : mode === 'signup'
-                ? 'Start securing your digital life'
-                : 'Enter your email to reset your password'}
+              {mfaResolver ? 'Confirm it is you to finish signing in' : descriptions[mode]}
             </CardDescription>
           </CardHeader>
           <CardContent>
-            <form onSubmit={handleSubmit} className="space-y-4">
-              <div className="space-y-2">
-                <label className="text-sm font-medium text-foreground">Email</label>
-                <div className="relative">
-                  <Mail className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-muted-foreground" />
-                  <Input
-                    type="email"
-                    placeholder="you@example.com"
-                    value={email}
-                    onChange={(e) => setEmail(e.target.value)}
-                    className="pl-10"
-                    required
-                  />
+            {mfaResolver ? (
+              <MfaChallenge
+                resolver={mfaResolver}
+                onResolved={(credential) => {
+                  setMfaResolver(null);
+                  finishSignIn(credential);
+                }}
+                onRecovered={() => setMfaResolver(null)}
+                onCancel={() => setMfaResolver(null)}
+              />
+            ) : mode === 'link' && linkSent ? (
+              <div className="space-y-4 text-center">
+                <div className="w-12 h-12 rounded-full bg-primary/10 flex items-center justify-center mx-auto">
+                  <Mail className="w-6 h-6 text-primary" />
                 </div>
+                <p className="text-sm text-muted-foreground">
+                  We sent a sign-in link to <span className="font-medium text-foreground">{email}</span>.
+                  Open it on this device to finish signing in.
+                </p>
+                <button
+                  onClick={() => {
+                    setLinkSent(false);
+                    setMode('login');
+                  }}
+                  className="text-sm text-muted-foreground hover:text-foreground transition-colors"
+                >
+                  Back to sign in
+                </button>
               </div>
+            ) : (
+              <>
+                {pendingLink && (
+                  <div className="mb-4 rounded-lg bg-primary/5 border border-primary/20 p-3 text-sm text-muted-foreground">
+                    An account already exists for{' '}
+                    <span className="font-medium text-foreground">{pendingLink.email ?? 'this email'}</span>.
+                    Sign in the way you usually do to connect {pendingLink.providerName} to it.
+                  </div>
+                )}
 
-              {mode !== 'reset' && (
-                <div className="space-y-2">
-                  <label className="text-sm font-medium text-foreground">Password</label>
-                  <div className="relative">
-                    <Lock className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-muted-foreground" />
-                    <Input
-                      type={showPassword ? 'text' : 'password'}
-                      placeholder="••••••••"
-                      value={password}
-                      onChange={(e) => setPassword(e.target.value)}
-                      className="pl-10 pr-10"
-                      required
-                    />
-                    <button
-                      type="button"
-                      onClick={() => setShowPassword(!showPassword)}
-                      className="absolute right-3 top-1/2 -translate-y-1/2 text-muted-foreground hover:text-foreground transition-colors"
-                    >
-                      {showPassword ? <EyeOff className="w-5 h-5" /> : <Eye className="w-5 h-5" />}
-                    </button>
+                <form onSubmit={handleSubmit} className="space-y-4">
+                  <div className="space-y-2">
+                    <label className="text-sm font-medium text-foreground">Email</label>
+                    <div className="relative">
+                      <Mail className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-muted-foreground" />
+                      <Input
+                        type="email"
+                        placeholder="you@example.com"
+                        value={email}
+                        onChange={(e) => setEmail(e.target.value)}
+                        className="pl-10"
+                        required
+                      />
+                    </div>
                   </div>
-                </div>
-              )}
 
-              {mode === 'login' && (
-                <button
-                  type="button"
-                  onClick={() => setMode('reset')}
-                  className="text-sm text-primary hover:underline"
-                >
-                  Forgot password?
-                </button>
-              )}
+                  {(mode === 'login' || mode === 'signup') && (
+                    <div className="space-y-2">
+                      <label className="text-sm font-medium text-foreground">Password</label>
+                      <div className="relative">
+                        <Lock className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-muted-foreground" />
+                        <Input
+                          type={showPassword ? 'text' : 'password'}
+                          placeholder="••••••••"
+                          value={password}
+                          onChange={(e) => setPassword(e.target.value)}
+                          className="pl-10 pr-10"
+                          required
+                        />
+                        <button
+                          type="button"
+                          onClick={() => setShowPassword(!showPassword)}
+                          className="absolute right-3 top-1/2 -translate-y-1/2 text-muted-foreground hover:text-foreground transition-colors"
+                        >
+                          {showPassword ? <EyeOff className="w-5 h-5" /> : <Eye className="w-5 h-5" />}
+                        </button>
+                      </div>
+                      {mode === 'signup' && <StrengthMeter password={password} />}
+                    </div>
+                  )}
+
+                  {mode === 'login' && (
+                    <div className="flex items-center justify-between">
+                      <button
+                        type="button"
+                        onClick={() => setMode('reset')}
+                        className="text-sm text-primary hover:underline"
+                      >
+                        Forgot password?
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => setMode('link')}
+                        className="inline-flex items-center gap-1 text-sm text-primary hover:underline"
+                      >
+                        <Link2 className="w-4 h-4" />
+                        Email me a link
+                      </button>
+                    </div>
+                  )}
 
-              <Button type="submit" className="w-full" size="lg" disabled={loading}>
-                {loading ? (
-                  <Loader2 className="w-5 h-5 animate-spin" />
-                ) : (
+                  <Button type="submit" className="w-full" size="lg" disabled={loading}>
+                    {loading ? (
+                      <Loader2 className="w-5 h-5 animate-spin" />
+                    ) : (
+                      <>
+                        {submitLabels[mode]}
+                        <ArrowRight className="w-5 h-5" />
+                      </>
+                    )}
+                  </Button>
+                </form>
+
+                {(mode === 'login' || mode === 'signup') && (
                   <>
-                    {mode === 'login' ? 'Sign in' : mode === 'signup' ? 'Create account' : 'Send reset email'}
-                    <ArrowRight className="w-5 h-5" />
+                    <div className="flex items-center gap-3 my-6">
+                      <div className="h-px flex-1 bg-border" />
+                      <span className="text-xs text-muted-foreground">or continue with</span>
+                      <div className="h-px flex-1 bg-border" />
+                    </div>
+                    <SocialSignInButtons onSelect={handleSocialSignIn} disabled={loading} />
                   </>
                 )}
-              </Button>
-            </form>
 
-            <div className="mt-6 text-center">
-              {mode === 'reset' ? (
-                <button
-                  onClick={() => setMode('login')}
-                  className="text-sm text-muted-foreground hover:text-foreground transition-colors"
-                >
-                  Back to sign in
-                </button>
-              ) : (
-                <p className="text-sm text-muted-foreground">
-                  {mode === 'login' ? "Don't have an account? " : "Already have an account? "}
-                  <button
-                    onClick={() => setMode(mode === 'login' ? 'signup' : 'login')}
-                    className="text-primary font-medium hover:underline"
-                  >
-                    {mode === 'login' ? 'Sign up' : 'Sign in'}
-                  </button>
-                </p>
-              )}
-            </div>
+                <div className="mt-6 text-center">
+                  {mode === 'reset' || mode === 'link' || mode === 'link-confirm' ? (
+                    <button
+                      onClick={() => setMode('login')}
+                      className="text-sm text-muted-foreground hover:text-foreground transition-colors"
+                    >
+                      Back to sign in
+                    </button>
+                  ) : (
+                    <p className="text-sm text-muted-foreground">
+                      {mode === 'login' ? "Don't have an account? " : "Already have an account? "}
+                      <button
+                        onClick={() => setMode(mode === 'login' ? 'signup' : 'login')}
+                        className="text-primary font-medium hover:underline"
+                      >
+                        {mode === 'login' ? 'Sign up' : 'Sign in'}
+                      </button>
+                    </p>
+                  )}
+                </div>
+              </>
+            )}
           </CardContent>
         </Card>
       </div>
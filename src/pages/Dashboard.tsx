@@ -1,8 +1,14 @@
+import { useMemo } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { describeRotationDue, getDueForRotation } from '@/lib/passwordRotation';
 import { useAuthStore } from '@/stores/authStore';
+import { useSettingsStore } from '@/stores/settingsStore';
+import { useActivityLog } from '@/hooks/use-activity-log';
+import { usePasswords } from '@/hooks/use-passwords';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Link } from 'react-router-dom';
-import { Key, StickyNote, CheckSquare, FolderLock, Wallet, TrendingUp, ArrowRight, Shield, Clock, Sparkles } from 'lucide-react';
+import { Key, StickyNote, CheckSquare, FolderLock, Wallet, TrendingUp, ArrowRight, Shield, Clock, Sparkles, Clipboard, History, RefreshCw } from 'lucide-react';
 
 const features = [
   {
@@ -57,6 +63,10 @@ const features = [
 
 export default function Dashboard() {
   const { user } = useAuthStore();
+  const activity = useActivityLog(8);
+  const { passwords } = usePasswords();
+  const rotationPolicies = useSettingsStore((state) => state.settings.rotationPolicies);
+  const dueForRotation = useMemo(() => getDueForRotation(passwords, rotationPolicies), [passwords, rotationPolicies]);
   const firstName = user?.email?.split('@')[0] || 'User';
 
   const getGreeting = () => {
@@ -87,7 +97,7 @@ export default function Dashboard() {
             </div>
             <div>
               <p className="text-2xl font-bold text-foreground">Secure</p>
-              <p className="text-sm text-muted-foreground">All data encrypted</p>
+              <p className="text-sm text-muted-foreground">Passwords encrypted on your device</p>
             </div>
           </CardContent>
         </Card>
@@ -141,6 +151,62 @@ export default function Dashboard() {
         })}
       </div>
 
+      {/* Rotation reminders */}
+      {dueForRotation.length > 0 && (
+        <Card className="mt-8 border-amber-500/30">
+          <CardHeader className="flex flex-row items-center justify-between space-y-0">
+            <div>
+              <CardTitle className="flex items-center gap-2 text-lg">
+                <RefreshCw className="w-5 h-5 text-amber-600" />
+                Due for rotation
+              </CardTitle>
+              <CardDescription>These passwords have reached their rotation interval</CardDescription>
+            </div>
+            <Button variant="outline" size="sm" asChild>
+              <Link to="/passwords/audit">Review all</Link>
+            </Button>
+          </CardHeader>
+          <CardContent className="divide-y divide-border">
+            {dueForRotation.slice(0, 5).map((item) => (
+              <Link
+                key={item.password.id}
+                to={`/passwords?edit=${item.password.id}`}
+                className="flex items-center gap-3 py-2.5 first:pt-0 last:pb-0 hover:text-primary"
+              >
+                <Key className="w-4 h-4 text-muted-foreground shrink-0" />
+                <span className="flex-1 min-w-0 text-sm text-foreground truncate">{item.password.title}</span>
+                <span className={`text-xs whitespace-nowrap ${item.daysLeft < 0 ? 'text-destructive' : 'text-muted-foreground'}`}>
+                  {describeRotationDue(item)}
+                </span>
+              </Link>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Recent activity */}
+      {activity.length > 0 && (
+        <Card className="mt-8">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-lg">
+              <History className="w-5 h-5 text-muted-foreground" />
+              Recent activity
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="divide-y divide-border">
+            {activity.map((event) => (
+              <div key={event.id} className="flex items-center gap-3 py-2.5 first:pt-0 last:pb-0">
+                <Clipboard className="w-4 h-4 text-muted-foreground shrink-0" />
+                <span className="flex-1 min-w-0 text-sm text-foreground truncate">{event.description}</span>
+                <span className="text-xs text-muted-foreground whitespace-nowrap">
+                  {event.createdAt && formatDistanceToNow(event.createdAt, { addSuffix: true })}
+                </span>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
       {/* Getting started */}
       <Card className="mt-8 bg-gradient-to-r from-primary/5 via-transparent to-primary/5 border-primary/20">
         <CardContent className="p-6 flex flex-col md:flex-row items-center justify-between gap-4">
@@ -0,0 +1,351 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { format, formatDistanceToNow } from 'date-fns';
+import {
+  acceptGrant,
+  approveAccess,
+  createGrant,
+  denyAccess,
+  emergencyStatusLabels,
+  getAccessAvailableAt,
+  hasEmergencyAccess,
+  requestAccess,
+  revokeGrant,
+  syncEmergencyAccess,
+  waitingPeriodOptions,
+} from '@/lib/emergencyAccess';
+import { categories } from '@/lib/passwords';
+import { VaultItem } from '@/data/vault';
+import { EmergencyGrant } from '@/data/emergencyAccess';
+import { vaultTypeLabels } from '@/lib/vault';
+import { useAuthStore } from '@/stores/authStore';
+import { useEmergencyGrants } from '@/hooks/use-emergency-access';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { toast } from 'sonner';
+import { z } from 'zod';
+import { Plus, LifeBuoy, Trash2, Loader2, RefreshCw, UserCheck, ShieldAlert, Unlock } from 'lucide-react';
+
+const emailSchema = z.string().email('Please enter a valid email');
+
+export default function EmergencyAccess() {
+  const { user, masterKey } = useAuthStore();
+  const { owned, shared } = useEmergencyGrants();
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [syncing, setSyncing] = useState(false);
+
+  // Form state
+  const [contactEmail, setContactEmail] = useState('');
+  const [waitingDays, setWaitingDays] = useState(7);
+  const [selectedCategories, setSelectedCategories] = useState<string[]>([]);
+  const [selectedVaultTypes, setSelectedVaultTypes] = useState<VaultItem['type'][]>([]);
+
+  const resetForm = () => {
+    setContactEmail('');
+    setWaitingDays(7);
+    setSelectedCategories([]);
+    setSelectedVaultTypes([]);
+  };
+
+  const toggle = <T,>(list: T[], value: T) =>
+    list.includes(value) ? list.filter((item) => item !== value) : [...list, value];
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user || !masterKey) return;
+
+    const validation = emailSchema.safeParse(contactEmail.trim());
+    if (!validation.success) {
+      toast.error(validation.error.errors[0].message);
+      return;
+    }
+    if (contactEmail.trim().toLowerCase() === user.email?.toLowerCase()) {
+      toast.error('You cannot be your own trusted contact');
+      return;
+    }
+    if (selectedCategories.length === 0 && selectedVaultTypes.length === 0) {
+      toast.error('Choose at least one category or vault item type');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await createGrant(user, masterKey, contactEmail, {
+        waitingDays,
+        categories: selectedCategories,
+        vaultTypes: selectedVaultTypes,
+      });
+      await syncEmergencyAccess(user.uid, masterKey);
+      toast.success('Trusted contact added. Ask them to sign in and accept the invitation.');
+      resetForm();
+      setIsDialogOpen(false);
+    } catch (error) {
+      toast.error('Failed to add trusted contact');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSync = async () => {
+    if (!user || !masterKey) return;
+
+    setSyncing(true);
+    try {
+      await syncEmergencyAccess(user.uid, masterKey);
+      toast.success('Emergency copies updated');
+    } catch (error) {
+      toast.error('Failed to update emergency access');
+    } finally {
+      setSyncing(false);
+    }
+  };
+
+  const runAction = async (action: () => Promise<void>, success: string, failure: string) => {
+    try {
+      await action();
+      toast.success(success);
+    } catch (error) {
+      toast.error(failure);
+    }
+  };
+
+  const renderScope = (grant: EmergencyGrant) => (
+    [...grant.categories, ...grant.vaultTypes.map((type) => `Vault: ${vaultTypeLabels[type]}`)].join(', ')
+  );
+
+  const renderRequest = (grant: EmergencyGrant) => {
+    const availableAt = getAccessAvailableAt(grant);
+    if (grant.status !== 'requested' || !availableAt) return null;
+
+    return availableAt > new Date()
+      ? `Access opens ${formatDistanceToNow(availableAt, { addSuffix: true })} (${format(availableAt, 'PPp')})`
+      : 'Waiting period has ended';
+  };
+
+  return (
+    <div className="p-6 lg:p-8 max-w-4xl mx-auto">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 mb-8">
+        <div>
+          <h1 className="text-2xl font-bold text-foreground mb-1">Emergency Access</h1>
+          <p className="text-muted-foreground">Let someone you trust reach your passwords if you cannot</p>
+        </div>
+        <div className="flex gap-2">
+          {owned.length > 0 && (
+            <Button variant="outline" onClick={handleSync} disabled={syncing}>
+              <RefreshCw className={syncing ? 'w-4 h-4 animate-spin' : 'w-4 h-4'} />
+              Sync now
+            </Button>
+          )}
+          <Dialog open={isDialogOpen} onOpenChange={(open) => { setIsDialogOpen(open); if (!open) resetForm(); }}>
+            <DialogTrigger asChild>
+              <Button>
+                <Plus className="w-4 h-4" />
+                Add Contact
+              </Button>
+            </DialogTrigger>
+            <DialogContent className="sm:max-w-md max-h-[90vh] overflow-y-auto">
+              <DialogHeader>
+                <DialogTitle>Add trusted contact</DialogTitle>
+                <DialogDescription>
+                  They can request access at any time. If you do not deny the request within the waiting period,
+                  they get read-only access to what you choose below.
+                </DialogDescription>
+              </DialogHeader>
+              <form onSubmit={handleSubmit} className="space-y-4 mt-2">
+                <div>
+                  <label className="text-sm font-medium text-foreground">Contact email *</label>
+                  <Input
+                    type="email"
+                    value={contactEmail}
+                    onChange={(e) => setContactEmail(e.target.value)}
+                    placeholder="name@example.com"
+                    required
+                  />
+                </div>
+                <div>
+                  <label className="text-sm font-medium text-foreground">Waiting period</label>
+                  <Select value={String(waitingDays)} onValueChange={(v) => setWaitingDays(Number(v))}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {waitingPeriodOptions.map((days) => (
+                        <SelectItem key={days} value={String(days)}>
+                          {days === 1 ? '1 day' : `${days} days`}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <p className="text-sm font-medium text-foreground mb-2">Password categories</p>
+                  <div className="grid grid-cols-2 gap-2">
+                    {categories.map((cat) => (
+                      <label key={cat} className="flex items-center gap-2 text-sm text-foreground">
+                        <Checkbox
+                          checked={selectedCategories.includes(cat)}
+                          onCheckedChange={() => setSelectedCategories((prev) => toggle(prev, cat))}
+                        />
+                        {cat}
+                      </label>
+                    ))}
+                  </div>
+                </div>
+                <div>
+                  <p className="text-sm font-medium text-foreground mb-2">Vault items</p>
+                  <div className="grid grid-cols-2 gap-2">
+                    {(Object.keys(vaultTypeLabels) as VaultItem['type'][]).map((type) => (
+                      <label key={type} className="flex items-center gap-2 text-sm text-foreground">
+                        <Checkbox
+                          checked={selectedVaultTypes.includes(type)}
+                          onCheckedChange={() => setSelectedVaultTypes((prev) => toggle(prev, type))}
+                        />
+                        {vaultTypeLabels[type]}
+                      </label>
+                    ))}
+                  </div>
+                </div>
+                <Button type="submit" className="w-full" disabled={saving}>
+                  {saving && <Loader2 className="w-4 h-4 animate-spin" />}
+                  Add Contact
+                </Button>
+              </form>
+            </DialogContent>
+          </Dialog>
+        </div>
+      </div>
+
+      {/* Trusted contacts */}
+      <Card className="mb-6">
+        <CardHeader>
+          <CardTitle className="text-lg">Your trusted contacts</CardTitle>
+          <CardDescription>People who can request access to your vault</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {owned.length === 0 ? (
+            <div className="text-center py-6">
+              <LifeBuoy className="w-8 h-8 mx-auto text-muted-foreground mb-2" />
+              <p className="text-sm text-muted-foreground">No trusted contacts yet</p>
+            </div>
+          ) : (
+            <div className="divide-y divide-border">
+              {owned.map((grant) => (
+                <div key={grant.id} className="py-3 first:pt-0 last:pb-0 flex flex-col sm:flex-row sm:items-center gap-3">
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2">
+                      <p className="font-medium text-foreground truncate">{grant.contactEmail}</p>
+                      <span className="text-xs px-2 py-0.5 rounded-full bg-muted text-muted-foreground whitespace-nowrap">
+                        {emergencyStatusLabels[grant.status]}
+                      </span>
+                    </div>
+                    <p className="text-xs text-muted-foreground truncate">
+                      {grant.waitingDays} day wait · {renderScope(grant)}
+                    </p>
+                    {grant.status === 'requested' && (
+                      <p className="text-xs text-amber-600 mt-1">{renderRequest(grant)}</p>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-2">
+                    {grant.status === 'requested' && (
+                      <>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => runAction(() => denyAccess(grant), 'Request denied', 'Failed to deny request')}
+                        >
+                          Deny
+                        </Button>
+                        <Button
+                          size="sm"
+                          onClick={() => runAction(() => approveAccess(grant), 'Access granted', 'Failed to grant access')}
+                        >
+                          Approve now
+                        </Button>
+                      </>
+                    )}
+                    <Button
+                      variant="ghost"
+                      size="icon-sm"
+                      onClick={() => runAction(() => revokeGrant(grant), 'Trusted contact removed', 'Failed to remove contact')}
+                      className="text-destructive hover:text-destructive"
+                      title="Remove contact"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Shared with me */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Vaults you can access</CardTitle>
+          <CardDescription>People who named you as their trusted contact</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {shared.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">Nobody has named you as a trusted contact</p>
+          ) : (
+            <div className="divide-y divide-border">
+              {shared.map((grant) => (
+                <div key={grant.id} className="py-3 first:pt-0 last:pb-0 flex flex-col sm:flex-row sm:items-center gap-3">
+                  <div className="flex-1 min-w-0">
+                    <p className="font-medium text-foreground truncate">{grant.ownerEmail}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {grant.status === 'invited' && 'Accept to become their trusted contact'}
+                      {grant.status === 'accepted' && 'Waiting for the owner to confirm your invitation'}
+                      {grant.status === 'confirmed' && `You can request access. The owner has ${grant.waitingDays} days to deny it.`}
+                      {grant.status === 'requested' && !hasEmergencyAccess(grant) && renderRequest(grant)}
+                      {hasEmergencyAccess(grant) && 'You have read-only access'}
+                    </p>
+                  </div>
+                  {grant.status === 'invited' && (
+                    <Button
+                      size="sm"
+                      onClick={() => user && masterKey && runAction(
+                        () => acceptGrant(grant, user.uid, masterKey),
+                        'Invitation accepted',
+                        'Failed to accept invitation'
+                      )}
+                    >
+                      <UserCheck className="w-4 h-4" />
+                      Accept
+                    </Button>
+                  )}
+                  {grant.status === 'confirmed' && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => runAction(() => requestAccess(grant), 'Access requested', 'Failed to request access')}
+                    >
+                      <ShieldAlert className="w-4 h-4" />
+                      Request access
+                    </Button>
+                  )}
+                  {hasEmergencyAccess(grant) && (
+                    <Button size="sm" asChild>
+                      <Link to={`/emergency-access/${grant.id}`}>
+                        <Unlock className="w-4 h-4" />
+                        Open vault
+                      </Link>
+                    </Button>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
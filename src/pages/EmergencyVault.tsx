@@ -0,0 +1,149 @@
+import { useEffect, useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { EmergencyGrant } from '@/data/emergencyAccess';
+import { EmergencyVault as EmergencyVaultData, openEmergencyVault } from '@/lib/emergencyAccess';
+import { getOpenableUrl } from '@/lib/domains';
+import { getSecretLabel } from '@/lib/passwords';
+import { vaultTypeLabels } from '@/lib/vault';
+import { copySecret } from '@/lib/clipboard';
+import { useAuthStore } from '@/stores/authStore';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { ArrowLeft, Copy, Eye, EyeOff, Download, Loader2, ShieldX } from 'lucide-react';
+
+export default function EmergencyVault() {
+  const { id = '' } = useParams();
+  const { user, masterKey } = useAuthStore();
+  const [grant, setGrant] = useState<EmergencyGrant | null>(null);
+  const [vault, setVault] = useState<EmergencyVaultData | null>(null);
+  const [error, setError] = useState('');
+  const [visible, setVisible] = useState<Set<number>>(new Set());
+
+  useEffect(() => {
+    if (!user || !masterKey) return;
+
+    openEmergencyVault(id, user.uid, masterKey)
+      .then((result) => {
+        setGrant(result.grant);
+        setVault(result.vault);
+      })
+      .catch((err) => setError(err instanceof Error ? err.message : 'Failed to open vault'));
+  }, [id, user, masterKey]);
+
+  const toggleVisible = (index: number) => {
+    setVisible((prev) => {
+      const next = new Set(prev);
+      if (next.has(index)) {
+        next.delete(index);
+      } else {
+        next.add(index);
+      }
+      return next;
+    });
+  };
+
+  return (
+    <div className="p-6 lg:p-8 max-w-4xl mx-auto">
+      <Button variant="ghost" size="sm" asChild className="mb-4">
+        <Link to="/emergency-access">
+          <ArrowLeft className="w-4 h-4" />
+          Emergency access
+        </Link>
+      </Button>
+
+      {error ? (
+        <Card className="p-12 text-center">
+          <ShieldX className="w-8 h-8 mx-auto text-destructive mb-2" />
+          <p className="text-foreground">{error}</p>
+        </Card>
+      ) : !vault || !grant ? (
+        <div className="flex justify-center py-12">
+          <Loader2 className="w-8 h-8 animate-spin text-primary" />
+        </div>
+      ) : (
+        <>
+          <div className="mb-8">
+            <h1 className="text-2xl font-bold text-foreground mb-1">{grant.ownerEmail}</h1>
+            <p className="text-muted-foreground">
+              Read-only emergency access
+              {grant.syncedAt && ` · last updated ${grant.syncedAt.toLocaleDateString()}`}
+            </p>
+          </div>
+
+          <h2 className="text-lg font-semibold text-foreground mb-3">Passwords</h2>
+          {vault.passwords.length === 0 ? (
+            <p className="text-sm text-muted-foreground mb-8">No passwords shared</p>
+          ) : (
+            <div className="grid gap-3 mb-8">
+              {vault.passwords.map((pw, index) => (
+                <Card key={index}>
+                  <CardContent className="p-4 flex items-center gap-4">
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center gap-2 mb-1">
+                        <h3 className="font-semibold text-foreground truncate">{pw.title}</h3>
+                        <span className="text-xs px-2 py-0.5 rounded-full bg-muted text-muted-foreground">
+                          {pw.category}
+                        </span>
+                      </div>
+                      <p className="text-sm text-muted-foreground truncate">
+                        {pw.username}{pw.website && ` · ${pw.website}`}
+                      </p>
+                      <code className="inline-block max-w-full text-sm bg-muted px-2 py-0.5 rounded font-mono mt-2 whitespace-pre-wrap break-all">
+                        {visible.has(index) ? pw.password : '••••••••••••'}
+                      </code>
+                    </div>
+                    <div className="flex items-center gap-1">
+                      <Button variant="ghost" size="icon-sm" onClick={() => toggleVisible(index)}>
+                        {visible.has(index) ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon-sm"
+                        onClick={() => copySecret(pw.password, { label: getSecretLabel(pw.kind), source: `${pw.title} (emergency access)` })}
+                      >
+                        <Copy className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          )}
+
+          <h2 className="text-lg font-semibold text-foreground mb-3">Vault items</h2>
+          {vault.vaultItems.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No vault items shared</p>
+          ) : (
+            <div className="grid gap-3">
+              {vault.vaultItems.map((item, index) => (
+                <Card key={index}>
+                  <CardContent className="p-4 flex items-center gap-4">
+                    <div className="flex-1 min-w-0">
+                      <h3 className="font-semibold text-foreground truncate">{item.name}</h3>
+                      <p className="text-xs text-muted-foreground">{vaultTypeLabels[item.type]}</p>
+                    </div>
+                    {item.cardNumber && (
+                      <Button
+                        variant="ghost"
+                        size="icon-sm"
+                        onClick={() => copySecret(item.cardNumber ?? '', { label: 'Card number', source: `${item.name} (emergency access)` })}
+                        title="Copy card number"
+                      >
+                        <Copy className="w-4 h-4" />
+                      </Button>
+                    )}
+                    {getOpenableUrl(item.url) && (
+                      <Button variant="ghost" size="icon-sm" onClick={() => window.open(item.url, '_blank', 'noopener,noreferrer')}>
+                        <Download className="w-4 h-4" />
+                      </Button>
+                    )}
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
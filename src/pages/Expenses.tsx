@@ -1,8 +1,8 @@
-import { useState, useEffect, useRef } from 'react';
-import { collection, addDoc, deleteDoc, doc, query, where, onSnapshot } from 'firebase/firestore';
-import { db } from '@/lib/firebase';
-import { uploadToCloudinary } from '@/lib/cloudinary';
+import { useMemo, useState, useRef } from 'react';
+import { expensesRepository } from '@/data/expenses';
+import { getUserFolder, uploadToCloudinary } from '@/lib/cloudinary';
 import { useAuthStore } from '@/stores/authStore';
+import { useCollection } from '@/hooks/use-collection';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
@@ -13,24 +13,13 @@ import { Plus, Wallet, Trash2, Upload, CreditCard, Loader2, TrendingDown, Calend
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, PieChart, Pie, Cell } from 'recharts';
 import { cn } from '@/lib/utils';
 
-interface Expense {
-  id: string;
-  description: string;
-  amount: number;
-  category: string;
-  source: string;
-  date: string;
-  proofUrl?: string;
-  createdAt: Date;
-}
-
 const categories = ['Food', 'Transport', 'Shopping', 'Bills', 'Entertainment', 'Health', 'Other'];
 const sources = ['Credit Card', 'Debit Card', 'Cash', 'UPI', 'Loan', 'Borrowed'];
 const COLORS = ['#14b8a6', '#f59e0b', '#ef4444', '#8b5cf6', '#3b82f6', '#10b981', '#6b7280'];
 
 export default function Expenses() {
   const { user } = useAuthStore();
-  const [expenses, setExpenses] = useState<Expense[]>([]);
+  const { items } = useCollection(expensesRepository);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [uploading, setUploading] = useState(false);
   const [filterMonth, setFilterMonth] = useState<string>(new Date().toISOString().slice(0, 7));
@@ -45,21 +34,10 @@ export default function Expenses() {
   const [date, setDate] = useState(new Date().toISOString().slice(0, 10));
   const [proofFile, setProofFile] = useState<File | null>(null);
 
-  useEffect(() => {
-    if (!user) return;
-
-    const q = query(collection(db, 'expenses'), where('userId', '==', user.uid));
-    const unsubscribe = onSnapshot(q, (snapshot) => {
-      const expensesData = snapshot.docs.map((doc) => ({
-        id: doc.id,
-        ...doc.data(),
-        createdAt: doc.data().createdAt?.toDate(),
-      })) as Expense[];
-      setExpenses(expensesData.sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime()));
-    });
-
-    return () => unsubscribe();
-  }, [user]);
+  const expenses = useMemo(
+    () => [...items].sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime()),
+    [items]
+  );
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -69,11 +47,11 @@ export default function Expenses() {
     try {
       let proofUrl = '';
       if (proofFile) {
-        const result = await uploadToCloudinary(proofFile);
+        const result = await uploadToCloudinary(proofFile, getUserFolder(user.uid));
         proofUrl = result.secure_url;
       }
 
-      await addDoc(collection(db, 'expenses'), {
+      await expensesRepository.add({
         userId: user.uid,
         description,
         amount: parseFloat(amount),
@@ -105,7 +83,7 @@ export default function Expenses() {
 
   const handleDelete = async (id: string) => {
     try {
-      await deleteDoc(doc(db, 'expenses', id));
+      await expensesRepository.remove(id);
       toast.success('Expense deleted');
     } catch (error) {
       toast.error('Failed to delete expense');
@@ -1,8 +1,8 @@
-import { useState, useEffect, useRef } from 'react';
-import { collection, addDoc, deleteDoc, doc, query, where, onSnapshot } from 'firebase/firestore';
-import { db } from '@/lib/firebase';
-import { uploadToCloudinary } from '@/lib/cloudinary';
+import { useMemo, useState, useRef } from 'react';
+import { transactionsRepository } from '@/data/transactions';
+import { getUserFolder, uploadToCloudinary } from '@/lib/cloudinary';
 import { useAuthStore } from '@/stores/authStore';
+import { useCollection } from '@/hooks/use-collection';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
@@ -13,23 +13,12 @@ import { Plus, TrendingUp, Trash2, Upload, Loader2, Wallet, Image, ArrowUpRight,
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, AreaChart, Area } from 'recharts';
 import { cn } from '@/lib/utils';
 
-interface Transaction {
-  id: string;
-  description: string;
-  amount: number;
-  type: 'income' | 'expense';
-  category: string;
-  date: string;
-  proofUrl?: string;
-  createdAt: Date;
-}
-
 const incomeCategories = ['Salary', 'Freelance', 'Investment', 'Gift', 'Refund', 'Other'];
 const expenseCategories = ['Food', 'Transport', 'Shopping', 'Bills', 'Entertainment', 'Health', 'Other'];
 
 export default function Income() {
   const { user } = useAuthStore();
-  const [transactions, setTransactions] = useState<Transaction[]>([]);
+  const { items } = useCollection(transactionsRepository);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [uploading, setUploading] = useState(false);
   const [filterMonth, setFilterMonth] = useState<string>(new Date().toISOString().slice(0, 7));
@@ -44,21 +33,10 @@ export default function Income() {
   const [date, setDate] = useState(new Date().toISOString().slice(0, 10));
   const [proofFile, setProofFile] = useState<File | null>(null);
 
-  useEffect(() => {
-    if (!user) return;
-
-    const q = query(collection(db, 'transactions'), where('userId', '==', user.uid));
-    const unsubscribe = onSnapshot(q, (snapshot) => {
-      const data = snapshot.docs.map((doc) => ({
-        id: doc.id,
-        ...doc.data(),
-        createdAt: doc.data().createdAt?.toDate(),
-      })) as Transaction[];
-      setTransactions(data.sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime()));
-    });
-
-    return () => unsubscribe();
-  }, [user]);
+  const transactions = useMemo(
+    () => [...items].sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime()),
+    [items]
+  );
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -68,11 +46,11 @@ export default function Income() {
     try {
       let proofUrl = '';
       if (proofFile) {
-        const result = await uploadToCloudinary(proofFile);
+        const result = await uploadToCloudinary(proofFile, getUserFolder(user.uid));
         proofUrl = result.secure_url;
       }
 
-      await addDoc(collection(db, 'transactions'), {
+      await transactionsRepository.add({
         userId: user.uid,
         description,
         amount: parseFloat(amount),
@@ -104,7 +82,7 @@ export default function Income() {
 
   const handleDelete = async (id: string) => {
     try {
-      await deleteDoc(doc(db, 'transactions', id));
+      await transactionsRepository.remove(id);
       toast.success('Transaction deleted');
     } catch (error) {
       toast.error('Failed to delete transaction');
@@ -1,7 +1,7 @@
-import { useState, useEffect } from 'react';
-import { collection, addDoc, deleteDoc, doc, query, where, onSnapshot, updateDoc } from 'firebase/firestore';
-import { db } from '@/lib/firebase';
+import { useMemo, useState } from 'react';
+import { Note, notesRepository } from '@/data/notes';
 import { useAuthStore } from '@/stores/authStore';
+import { useCollection } from '@/hooks/use-collection';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
@@ -11,18 +11,9 @@ import { Badge } from '@/components/ui/badge';
 import { toast } from 'sonner';
 import { Plus, Search, StickyNote, Trash2, Pencil, X, Tag } from 'lucide-react';
 
-interface Note {
-  id: string;
-  title: string;
-  content: string;
-  tags: string[];
-  createdAt: Date;
-  updatedAt: Date;
-}
-
 export default function Notes() {
   const { user } = useAuthStore();
-  const [notes, setNotes] = useState<Note[]>([]);
+  const { items } = useCollection(notesRepository);
   const [searchQuery, setSearchQuery] = useState('');
   const [selectedTag, setSelectedTag] = useState<string | null>(null);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
@@ -34,22 +25,10 @@ export default function Notes() {
   const [tagInput, setTagInput] = useState('');
   const [tags, setTags] = useState<string[]>([]);
 
-  useEffect(() => {
-    if (!user) return;
-
-    const q = query(collection(db, 'notes'), where('userId', '==', user.uid));
-    const unsubscribe = onSnapshot(q, (snapshot) => {
-      const notesData = snapshot.docs.map((doc) => ({
-        id: doc.id,
-        ...doc.data(),
-        createdAt: doc.data().createdAt?.toDate(),
-        updatedAt: doc.data().updatedAt?.toDate(),
-      })) as Note[];
-      setNotes(notesData.sort((a, b) => (b.updatedAt?.getTime() || 0) - (a.updatedAt?.getTime() || 0)));
-    });
-
-    return () => unsubscribe();
-  }, [user]);
+  const notes = useMemo(
+    () => [...items].sort((a, b) => (b.updatedAt ?? b.createdAt).getTime() - (a.updatedAt ?? a.createdAt).getTime()),
+    [items]
+  );
 
   const allTags = [...new Set(notes.flatMap((note) => note.tags))];
 
@@ -59,7 +38,7 @@ export default function Notes() {
 
     try {
       if (editingId) {
-        await updateDoc(doc(db, 'notes', editingId), {
+        await notesRepository.update(editingId, {
           title,
           content,
           tags,
@@ -67,7 +46,7 @@ export default function Notes() {
         });
         toast.success('Note updated');
       } else {
-        await addDoc(collection(db, 'notes'), {
+        await notesRepository.add({
           userId: user.uid,
           title,
           content,
@@ -102,7 +81,7 @@ export default function Notes() {
 
   const handleDelete = async (id: string) => {
     try {
-      await deleteDoc(doc(db, 'notes', id));
+      await notesRepository.remove(id);
       toast.success('Note deleted');
     } catch (error) {
       toast.error('Failed to delete note');
@@ -0,0 +1,313 @@
+import { useMemo, useRef, useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { formatDistanceToNow } from 'date-fns';
+import { Password, categories } from '@/lib/passwords';
+import { auditPasswords, getLastChanged } from '@/lib/passwordAudit';
+import { describeRotationDue, getDueForRotation, rotationIntervalOptions } from '@/lib/passwordRotation';
+import { createHibpRangeProvider, createLocalRangeProvider, readRangeFiles } from '@/lib/breachCheck';
+import { useBreachStore } from '@/stores/breachStore';
+import { useSettingsStore } from '@/stores/settingsStore';
+import { usePasswords } from '@/hooks/use-passwords';
+import { useBreachCheck } from '@/hooks/use-breach-check';
+import { StrengthBadge } from '@/components/passwords/StrengthMeter';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { toast } from 'sonner';
+import { ArrowLeft, Copy, ShieldAlert, ShieldCheck, ShieldX, Clock, Globe, Key, Loader2, Pencil, RefreshCw, Upload } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+const ageOptions = [3, 6, 12, 24];
+
+function healthColor(score: number): string {
+  if (score >= 80) return 'text-green-600';
+  if (score >= 50) return 'text-amber-600';
+  return 'text-destructive';
+}
+
+export default function PasswordAudit() {
+  const { passwords, loading } = usePasswords();
+  const [maxAgeMonths, setMaxAgeMonths] = useState(12);
+  const { breaches, checking, failed } = useBreachCheck(passwords);
+  const { provider, setProvider } = useBreachStore();
+  const { settings, updateSettings } = useSettingsStore();
+  const rangeInputRef = useRef<HTMLInputElement>(null);
+  const navigate = useNavigate();
+
+  const report = useMemo(
+    () => auditPasswords(passwords, { maxAgeMonths }, breaches),
+    [passwords, maxAgeMonths, breaches]
+  );
+  const dueForRotation = useMemo(
+    () => getDueForRotation(passwords, settings.rotationPolicies),
+    [passwords, settings.rotationPolicies]
+  );
+
+  const handleBreachCheckToggle = async (breachCheckEnabled: boolean) => {
+    try {
+      await updateSettings({ breachCheckEnabled });
+    } catch (error) {
+      toast.error('Failed to save breach check setting');
+    }
+  };
+
+  const handleRotationPolicyChange = async (category: string, days: number) => {
+    try {
+      await updateSettings({ rotationPolicies: { ...settings.rotationPolicies, [category]: days } });
+    } catch (error) {
+      toast.error('Failed to save rotation policy');
+    }
+  };
+
+  const handleRangeFiles = async (files: FileList | null) => {
+    if (!files || files.length === 0) return;
+
+    const ranges = await readRangeFiles(Array.from(files));
+    const count = Object.keys(ranges).length;
+    if (count === 0) {
+      toast.error('No range files found. Files must be named after their 5-character hash prefix.');
+      return;
+    }
+    setProvider(createLocalRangeProvider(ranges));
+    toast.success(`Loaded ${count} offline range files`);
+  };
+
+  const changeNow = (pw: Password) => navigate(`/passwords?edit=${pw.id}`);
+
+  const renderEntry = (pw: Password, detail?: React.ReactNode) => (
+    <div key={pw.id} className="flex items-center gap-3 py-2">
+      <div className="w-9 h-9 rounded-lg bg-primary/10 flex items-center justify-center shrink-0">
+        <Key className="w-4 h-4 text-primary" />
+      </div>
+      <div className="flex-1 min-w-0">
+        <p className="text-sm font-medium text-foreground truncate">{pw.title}</p>
+        <p className="text-xs text-muted-foreground truncate">{detail ?? pw.username}</p>
+      </div>
+      <Button variant="outline" size="sm" onClick={() => changeNow(pw)}>
+        <Pencil className="w-4 h-4" />
+        Change now
+      </Button>
+    </div>
+  );
+
+  const sections = [
+    {
+      key: 'breached',
+      title: 'Breached passwords',
+      description: 'Found in known data breaches',
+      icon: ShieldX,
+      count: report.breached.length,
+      content: report.breached.map((pw) => renderEntry(pw, `Seen ${breaches.get(pw.id)?.toLocaleString()} times in breaches`)),
+    },
+    {
+      key: 'reused',
+      title: 'Reused passwords',
+      description: 'The same password is used for several entries',
+      icon: Copy,
+      count: report.reused.length,
+      content: report.reused.map((group, index) => (
+        <div key={index} className="py-2 border-b border-border last:border-0">
+          <p className="text-xs font-medium text-muted-foreground mb-1">
+            Shared by {group.length} entries
+          </p>
+          {group.map((pw) => renderEntry(pw))}
+        </div>
+      )),
+    },
+    {
+      key: 'weak',
+      title: 'Weak passwords',
+      description: 'Easy to guess or too short',
+      icon: ShieldAlert,
+      count: report.weak.length,
+      content: report.weak.map((pw) => renderEntry(pw, <StrengthBadge score={pw.strength} />)),
+    },
+    {
+      key: 'old',
+      title: 'Old passwords',
+      description: `Not changed in ${maxAgeMonths} months`,
+      icon: Clock,
+      count: report.old.length,
+      content: report.old.map((pw) => {
+        const lastChanged = getLastChanged(pw);
+        return renderEntry(pw, lastChanged ? `Last changed ${formatDistanceToNow(lastChanged, { addSuffix: true })}` : undefined);
+      }),
+    },
+    {
+      key: 'rotation',
+      title: 'Due for rotation',
+      description: 'Past or within a week of their rotation interval',
+      icon: RefreshCw,
+      count: dueForRotation.length,
+      content: dueForRotation.map((item) => renderEntry(item.password, describeRotationDue(item))),
+    },
+    {
+      key: 'noWebsite',
+      title: 'Missing website',
+      description: 'Entries without a website cannot be matched or opened',
+      icon: Globe,
+      count: report.noWebsite.length,
+      content: report.noWebsite.map((pw) => renderEntry(pw)),
+    },
+  ];
+
+  return (
+    <div className="p-6 lg:p-8 max-w-6xl mx-auto">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 mb-8">
+        <div>
+          <Link to="/passwords" className="inline-flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground mb-2">
+            <ArrowLeft className="w-4 h-4" />
+            Passwords
+          </Link>
+          <h1 className="text-2xl font-bold text-foreground mb-1">Password Health</h1>
+          <p className="text-muted-foreground">Find reused, weak and outdated credentials</p>
+        </div>
+        <Select value={String(maxAgeMonths)} onValueChange={(v) => setMaxAgeMonths(Number(v))}>
+          <SelectTrigger className="w-full sm:w-48">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {ageOptions.map((months) => (
+              <SelectItem key={months} value={String(months)}>Older than {months} months</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {loading ? (
+        <div className="flex items-center justify-center py-24">
+          <Loader2 className="w-8 h-8 animate-spin text-primary" />
+        </div>
+      ) : (
+        <>
+          {/* Health score */}
+          <Card className="mb-6">
+            <CardContent className="p-6 flex flex-col sm:flex-row sm:items-center gap-6">
+              <div className="w-14 h-14 rounded-xl bg-primary/10 flex items-center justify-center shrink-0">
+                <ShieldCheck className="w-7 h-7 text-primary" />
+              </div>
+              <div className="flex-1">
+                <div className="flex items-baseline gap-2 mb-2">
+                  <span className={cn("text-3xl font-bold", healthColor(report.healthScore))}>
+                    {report.healthScore}
+                  </span>
+                  <span className="text-muted-foreground">/ 100 overall health</span>
+                </div>
+                <Progress value={report.healthScore} />
+              </div>
+              <div className="grid grid-cols-2 gap-x-6 gap-y-1 text-sm">
+                {sections.map((section) => (
+                  <div key={section.key} className="flex justify-between gap-4">
+                    <span className="text-muted-foreground">{section.title}</span>
+                    <span className="font-medium text-foreground">{section.count}</span>
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Breach check */}
+          <Card className="mb-6">
+            <CardContent className="p-4 flex flex-col sm:flex-row sm:items-center gap-4">
+              <div className="flex-1">
+                <p className="text-sm font-medium text-foreground">Check against known breaches</p>
+                <p className="text-xs text-muted-foreground">
+                  Passwords are hashed on this device and only the first 5 characters of the hash are looked up
+                  using {provider.name}.
+                  {checking && ' Checking...'}
+                  {failed && ' Some lookups failed.'}
+                </p>
+              </div>
+              <div className="flex items-center gap-2">
+                <input
+                  ref={rangeInputRef}
+                  type="file"
+                  accept=".txt"
+                  multiple
+                  className="hidden"
+                  onChange={(e) => handleRangeFiles(e.target.files)}
+                />
+                {!provider.offline ? (
+                  <Button variant="outline" size="sm" onClick={() => rangeInputRef.current?.click()}>
+                    <Upload className="w-4 h-4" />
+                    Use offline files
+                  </Button>
+                ) : (
+                  <Button variant="outline" size="sm" onClick={() => setProvider(createHibpRangeProvider())}>
+                    Use online lookup
+                  </Button>
+                )}
+                <Switch checked={settings.breachCheckEnabled} onCheckedChange={handleBreachCheckToggle} />
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Rotation policies */}
+          <Card className="mb-6">
+            <CardHeader className="pb-2">
+              <CardTitle className="flex items-center gap-2 text-base">
+                <RefreshCw className="w-5 h-5 text-muted-foreground" />
+                Rotation policies
+              </CardTitle>
+              <CardDescription>
+                How often passwords in each category must be changed. Individual entries can override this.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="grid gap-3 sm:grid-cols-2 lg:grid-cols-3">
+              {categories.map((category) => (
+                <div key={category} className="flex items-center justify-between gap-3">
+                  <span className="text-sm text-foreground">{category}</span>
+                  <Select
+                    value={String(settings.rotationPolicies[category] ?? 0)}
+                    onValueChange={(v) => handleRotationPolicyChange(category, Number(v))}
+                  >
+                    <SelectTrigger className="w-36">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="0">Never</SelectItem>
+                      {rotationIntervalOptions.map((days) => (
+                        <SelectItem key={days} value={String(days)}>Every {days} days</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+
+          {/* Findings */}
+          <div className="grid gap-4 lg:grid-cols-2">
+            {sections.map((section) => {
+              const Icon = section.icon;
+              return (
+                <Card key={section.key}>
+                  <CardHeader className="pb-2">
+                    <CardTitle className="flex items-center gap-2 text-base">
+                      <Icon className="w-5 h-5 text-muted-foreground" />
+                      {section.title}
+                      <span className="ml-auto text-xs px-2 py-0.5 rounded-full bg-muted text-muted-foreground">
+                        {section.count}
+                      </span>
+                    </CardTitle>
+                    <CardDescription>{section.description}</CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    {section.count === 0 ? (
+                      <p className="text-sm text-muted-foreground py-2">Nothing to fix here</p>
+                    ) : (
+                      <div className="divide-y divide-border">{section.content}</div>
+                    )}
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,317 @@
+import { useCallback, useEffect, useState } from 'react';
+import { FirebaseError } from 'firebase/app';
+import { MultiFactorInfo, TotpSecret } from 'firebase/auth';
+import { format } from 'date-fns';
+import {
+  RECOVERY_CODE_COUNT,
+  countRecoveryCodes,
+  getTotpFactors,
+  regenerateRecoveryCodes,
+  removeFactor,
+  startTotpEnrollment,
+} from '@/lib/mfa';
+import {
+  SocialProviderId,
+  getLinkedProviders,
+  linkSocialProvider,
+  providerNames,
+  socialProviderNames,
+  unlinkProvider,
+} from '@/lib/authProviders';
+import { requireRecentAuth } from '@/lib/recentAuth';
+import { useAuthStore } from '@/stores/authStore';
+import { useSettingsStore } from '@/stores/settingsStore';
+import { ReauthDialog } from '@/components/auth/ReauthDialog';
+import { ProviderIcon } from '@/components/auth/SocialSignInButtons';
+import { EnrollTotpDialog } from '@/components/security/EnrollTotpDialog';
+import { RecoveryCodesDialog } from '@/components/security/RecoveryCodesDialog';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Switch } from '@/components/ui/switch';
+import { toast } from 'sonner';
+import { Globe, KeyRound, Link2, Loader2, Mail, Plus, ShieldCheck, ShieldOff, Smartphone, Trash2 } from 'lucide-react';
+
+export default function SecuritySettings() {
+  const { user } = useAuthStore();
+  const { settings, updateSettings } = useSettingsStore();
+  const [factors, setFactors] = useState<MultiFactorInfo[]>([]);
+  const [providers, setProviders] = useState<string[]>([]);
+  const [recoveryCount, setRecoveryCount] = useState<number | null>(null);
+  const [secret, setSecret] = useState<TotpSecret | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [pendingAction, setPendingAction] = useState<(() => Promise<void>) | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const refresh = useCallback(() => {
+    if (!user) return;
+    setFactors(getTotpFactors(user));
+    setProviders(getLinkedProviders(user));
+    countRecoveryCodes(user.uid)
+      .then(setRecoveryCount)
+      .catch(() => setRecoveryCount(null));
+  }, [user]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const handleFaviconToggle = async (showFavicons: boolean) => {
+    try {
+      await updateSettings({ showFavicons });
+    } catch (error) {
+      toast.error('Failed to save website icon setting');
+    }
+  };
+
+  // Firebase refuses factor changes in an old session, so ask for the password and retry
+  const run = async (action: () => Promise<void>, failureMessage: string) => {
+    setBusy(true);
+    try {
+      await action();
+    } catch (error) {
+      if (error instanceof FirebaseError && error.code === 'auth/requires-recent-login') {
+        setPendingAction(() => action);
+      } else {
+        toast.error(failureMessage);
+      }
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleReauthenticated = () => {
+    const action = pendingAction;
+    setPendingAction(null);
+    if (action) {
+      run(action, 'Something went wrong. Please try again.');
+    }
+  };
+
+  const handleStartEnrollment = () => {
+    if (!user) return;
+    run(async () => setSecret(await startTotpEnrollment(user)), 'Failed to start authenticator setup');
+  };
+
+  const handleRemove = (factor: MultiFactorInfo) => {
+    if (!user) return;
+    run(async () => {
+      await removeFactor(user, factor);
+      toast.success(`${factor.displayName ?? 'Authenticator'} removed`);
+      refresh();
+    }, 'Failed to remove authenticator');
+  };
+
+  const handleRegenerate = async () => {
+    if (!user) return;
+    if (!(await requireRecentAuth('Confirm it is you before generating new recovery codes.'))) return;
+    run(async () => {
+      setRecoveryCodes(await regenerateRecoveryCodes(user));
+      refresh();
+    }, 'Failed to generate recovery codes');
+  };
+
+  const handleConnect = (id: SocialProviderId) => {
+    if (!user) return;
+    setBusy(true);
+    linkSocialProvider(user, id)
+      .then(() => {
+        toast.success(`${socialProviderNames[id]} connected`);
+        refresh();
+      })
+      .catch((error) => {
+        const code = error instanceof FirebaseError ? error.code : undefined;
+        if (code === 'auth/requires-recent-login') {
+          setPendingAction(() => async () => {
+            await linkSocialProvider(user, id);
+            toast.success(`${socialProviderNames[id]} connected`);
+            refresh();
+          });
+        } else if (code === 'auth/credential-already-in-use') {
+          toast.error(`That ${socialProviderNames[id]} account is already used by another user`);
+        } else if (code !== 'auth/popup-closed-by-user' && code !== 'auth/cancelled-popup-request') {
+          toast.error(`Failed to connect ${socialProviderNames[id]}`);
+        }
+      })
+      .finally(() => setBusy(false));
+  };
+
+  const handleDisconnect = (providerId: string) => {
+    if (!user) return;
+    if (providers.length <= 1) {
+      toast.error('You need at least one way to sign in');
+      return;
+    }
+    run(async () => {
+      await unlinkProvider(user, providerId);
+      toast.success(`${providerNames[providerId] ?? providerId} disconnected`);
+      refresh();
+    }, 'Failed to disconnect sign-in method');
+  };
+
+  const enabled = factors.length > 0;
+  const unlinkedProviders = (Object.keys(socialProviderNames) as SocialProviderId[]).filter(
+    (id) => !providers.includes(id)
+  );
+
+  return (
+    <div className="p-6 lg:p-8 max-w-3xl mx-auto">
+      <div className="mb-8">
+        <h1 className="text-2xl font-bold text-foreground mb-1">Security</h1>
+        <p className="text-muted-foreground">Protect your account sign-in</p>
+      </div>
+
+      <Card className="mb-6">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-lg">
+            <Link2 className="w-5 h-5 text-muted-foreground" />
+            Sign-in methods
+          </CardTitle>
+          <CardDescription>
+            Connect other accounts so you can sign in with them instead of your password.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {providers.map((providerId) => {
+            const info = user?.providerData.find((data) => data.providerId === providerId);
+            return (
+              <div key={providerId} className="flex items-center gap-3 rounded-lg border border-border p-3">
+                {providerId in socialProviderNames ? (
+                  <ProviderIcon id={providerId as SocialProviderId} className="w-5 h-5 shrink-0" />
+                ) : (
+                  <Mail className="w-5 h-5 text-muted-foreground shrink-0" />
+                )}
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium text-foreground">{providerNames[providerId] ?? providerId}</p>
+                  {info?.email && <p className="text-xs text-muted-foreground truncate">{info.email}</p>}
+                </div>
+                {providers.length > 1 && (
+                  <Button variant="ghost" size="sm" onClick={() => handleDisconnect(providerId)} disabled={busy}>
+                    Disconnect
+                  </Button>
+                )}
+              </div>
+            );
+          })}
+          {unlinkedProviders.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {unlinkedProviders.map((id) => (
+                <Button key={id} variant="outline" onClick={() => handleConnect(id)} disabled={busy}>
+                  <ProviderIcon id={id} />
+                  Connect {socialProviderNames[id]}
+                </Button>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card className="mb-6">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-lg">
+            {enabled ? <ShieldCheck className="w-5 h-5 text-green-600" /> : <ShieldOff className="w-5 h-5 text-muted-foreground" />}
+            Two-step verification
+          </CardTitle>
+          <CardDescription>
+            {enabled
+              ? 'Signing in needs your password and a code from your authenticator app.'
+              : 'Require a code from an authenticator app in addition to your password when signing in.'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {settings.mfaReenrollRequired && !enabled && (
+            <Alert variant="destructive">
+              <AlertDescription>
+                A recovery code removed your authenticator app. Set up a new one to keep using your account.
+              </AlertDescription>
+            </Alert>
+          )}
+          {factors.map((factor) => (
+            <div key={factor.uid} className="flex items-center gap-3 rounded-lg border border-border p-3">
+              <Smartphone className="w-5 h-5 text-muted-foreground shrink-0" />
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-medium text-foreground truncate">{factor.displayName ?? 'Authenticator app'}</p>
+                <p className="text-xs text-muted-foreground">
+                  Added {format(new Date(factor.enrollmentTime), 'PP')}
+                </p>
+              </div>
+              <Button
+                variant="ghost"
+                size="icon-sm"
+                onClick={() => handleRemove(factor)}
+                disabled={busy}
+                className="text-destructive hover:text-destructive"
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+          ))}
+          {!enabled && (
+            <Button onClick={handleStartEnrollment} disabled={busy}>
+              {busy ? <Loader2 className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />}
+              Set up authenticator app
+            </Button>
+          )}
+        </CardContent>
+      </Card>
+
+      {enabled && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-lg">
+              <KeyRound className="w-5 h-5 text-muted-foreground" />
+              Recovery codes
+            </CardTitle>
+            <CardDescription>
+              Use a recovery code if you lose access to your authenticator app. It removes the app from your
+              account so you can sign in with your password and set up a new one.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+            <p className="text-sm text-foreground">
+              {recoveryCount === null ? '—' : `${recoveryCount} of ${RECOVERY_CODE_COUNT} codes left`}
+            </p>
+            <Button variant="outline" onClick={handleRegenerate} disabled={busy}>
+              Generate new codes
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card className="mt-6">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-lg">
+            <Globe className="w-5 h-5 text-muted-foreground" />
+            Website icons
+          </CardTitle>
+          <CardDescription>
+            Show each saved website's icon. Icons are loaded from the sites themselves, which lets them see your IP
+            address and which sites you have saved.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="flex items-center justify-between gap-4">
+          <p className="text-sm text-foreground">Load icons from saved websites</p>
+          <Switch checked={settings.showFavicons} onCheckedChange={handleFaviconToggle} />
+        </CardContent>
+      </Card>
+
+      <EnrollTotpDialog
+        secret={secret}
+        onOpenChange={(open) => !open && setSecret(null)}
+        onEnrolled={(codes) => {
+          setRecoveryCodes(codes);
+          refresh();
+          if (settings.mfaReenrollRequired) {
+            updateSettings({ mfaReenrollRequired: false }).catch(() => {});
+          }
+        }}
+      />
+      <RecoveryCodesDialog codes={recoveryCodes} onOpenChange={(open) => !open && setRecoveryCodes(null)} />
+      <ReauthDialog
+        open={!!pendingAction}
+        onOpenChange={(open) => !open && setPendingAction(null)}
+        onReauthenticated={handleReauthenticated}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,119 @@
+import { useMemo, useState } from 'react';
+import { format, formatDistanceToNow } from 'date-fns';
+import { Session, sessionsRepository } from '@/data/sessions';
+import { describeUserAgent, isMobileUserAgent, revokeOtherSessions, revokeSession } from '@/lib/sessions';
+import { useAuthStore } from '@/stores/authStore';
+import { useCollection } from '@/hooks/use-collection';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { toast } from 'sonner';
+import { Loader2, LogOut, Monitor, Smartphone } from 'lucide-react';
+
+export default function Sessions() {
+  const { sessionId } = useAuthStore();
+  const { items, loading } = useCollection(sessionsRepository);
+  const [busy, setBusy] = useState(false);
+
+  const sessions = useMemo(
+    () =>
+      items
+        .filter((session) => !session.revoked)
+        .sort((a, b) => {
+          if (a.id === sessionId) return -1;
+          if (b.id === sessionId) return 1;
+          return (b.lastSeenAt?.getTime() || 0) - (a.lastSeenAt?.getTime() || 0);
+        }),
+    [items, sessionId]
+  );
+
+  const handleRevoke = async (session: Session) => {
+    setBusy(true);
+    try {
+      await revokeSession(session.id);
+      toast.success(`${describeUserAgent(session.userAgent)} signed out`);
+    } catch (error) {
+      toast.error('Failed to sign out device');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRevokeOthers = async () => {
+    setBusy(true);
+    try {
+      await revokeOtherSessions(sessions, sessionId);
+      toast.success('Signed out all other devices');
+    } catch (error) {
+      toast.error('Failed to sign out other devices');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const otherCount = sessions.filter((session) => session.id !== sessionId).length;
+
+  return (
+    <div className="p-6 lg:p-8 max-w-3xl mx-auto">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 mb-8">
+        <div>
+          <h1 className="text-2xl font-bold text-foreground mb-1">Sessions</h1>
+          <p className="text-muted-foreground">Browsers and devices signed in to your account</p>
+        </div>
+        {otherCount > 0 && (
+          <Button variant="outline" onClick={handleRevokeOthers} disabled={busy}>
+            <LogOut className="w-4 h-4" />
+            Sign out other devices
+          </Button>
+        )}
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Signed-in devices</CardTitle>
+          <CardDescription>
+            Signing out a device ends its session and clears the data it kept on that device.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {loading ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="w-6 h-6 animate-spin text-primary" />
+            </div>
+          ) : (
+            sessions.map((session) => {
+              const Icon = isMobileUserAgent(session.userAgent) ? Smartphone : Monitor;
+              const isCurrent = session.id === sessionId;
+              return (
+                <div key={session.id} className="flex items-center gap-3 rounded-lg border border-border p-3">
+                  <Icon className="w-5 h-5 text-muted-foreground shrink-0" />
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2">
+                      <p className="text-sm font-medium text-foreground truncate">
+                        {describeUserAgent(session.userAgent)}
+                      </p>
+                      {isCurrent && <Badge variant="secondary">This device</Badge>}
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      {isCurrent
+                        ? 'Active now'
+                        : session.lastSeenAt
+                        ? `Last seen ${formatDistanceToNow(session.lastSeenAt, { addSuffix: true })}`
+                        : 'Last seen unknown'}
+                      {session.createdAt && ` · Signed in ${format(session.createdAt, 'PP')}`}
+                    </p>
+                  </div>
+                  {!isCurrent && (
+                    <Button variant="ghost" size="sm" onClick={() => handleRevoke(session)} disabled={busy}>
+                      Sign out
+                    </Button>
+                  )}
+                </div>
+              );
+            })
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
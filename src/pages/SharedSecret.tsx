@@ -0,0 +1,118 @@
+import { useEffect, useState } from 'react';
+import { Link, useLocation, useParams } from 'react-router-dom';
+import { format } from 'date-fns';
+import { OpenedShare, openShare, shareExists } from '@/lib/shares';
+import { copySecret } from '@/lib/clipboard';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Copy, Eye, Loader2, Shield, ShieldX } from 'lucide-react';
+
+export default function SharedSecret() {
+  const { id = '' } = useParams();
+  const location = useLocation();
+  const [encodedKey] = useState(() => location.hash.slice(1));
+  const [status, setStatus] = useState<'checking' | 'ready' | 'opening' | 'opened' | 'unavailable'>('checking');
+  const [share, setShare] = useState<OpenedShare | null>(null);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    // Keep the key out of the address bar and browser history once it has been read
+    window.history.replaceState(null, '', location.pathname);
+
+    if (!encodedKey) {
+      setError('This link is incomplete. Ask the sender for the full link.');
+      setStatus('unavailable');
+      return;
+    }
+
+    shareExists(id)
+      .then((exists) => setStatus(exists ? 'ready' : 'unavailable'))
+      .catch(() => setStatus('unavailable'));
+  }, [id, encodedKey, location.pathname]);
+
+  // Opening is a deliberate click so that link previews and prefetching cannot burn the link
+  const handleReveal = async () => {
+    setStatus('opening');
+    try {
+      setShare(await openShare(id, encodedKey));
+      setStatus('opened');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to open this link');
+      setStatus('unavailable');
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-4 bg-gradient-to-br from-background via-background to-primary/5">
+      <Card className="w-full max-w-md">
+        <CardHeader className="text-center">
+          <div className="w-14 h-14 rounded-2xl bg-primary/10 flex items-center justify-center mx-auto mb-4">
+            {status === 'unavailable' ? (
+              <ShieldX className="w-7 h-7 text-destructive" />
+            ) : (
+              <Shield className="w-7 h-7 text-primary" />
+            )}
+          </div>
+          <CardTitle className="text-2xl">
+            {share ? share.secret.title : 'Someone shared a password with you'}
+          </CardTitle>
+          <CardDescription>
+            {status === 'unavailable' && (error || 'This link has already been used or has expired.')}
+            {(status === 'ready' || status === 'opening') &&
+              'It can only be viewed a limited number of times. Make sure you are ready to save it.'}
+            {status === 'opened' && share && (
+              share.viewsLeft > 0
+                ? `This link can be opened ${share.viewsLeft} more time${share.viewsLeft === 1 ? '' : 's'} until ${format(share.expiresAt, 'PPp')}.`
+                : 'This link has now been destroyed. Save the password somewhere safe.'
+            )}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {status === 'checking' && <Loader2 className="w-6 h-6 mx-auto animate-spin text-primary" />}
+
+          {(status === 'ready' || status === 'opening') && (
+            <Button className="w-full" onClick={handleReveal} disabled={status === 'opening'}>
+              {status === 'opening' ? <Loader2 className="w-4 h-4 animate-spin" /> : <Eye className="w-4 h-4" />}
+              Reveal password
+            </Button>
+          )}
+
+          {share && (
+            <dl className="space-y-3 text-sm">
+              {share.secret.website && (
+                <div>
+                  <dt className="text-muted-foreground">Website</dt>
+                  <dd className="text-foreground break-all">{share.secret.website}</dd>
+                </div>
+              )}
+              {share.secret.username && (
+                <div>
+                  <dt className="text-muted-foreground">Username</dt>
+                  <dd className="flex items-center gap-2">
+                    <span className="flex-1 text-foreground break-all">{share.secret.username}</span>
+                    <Button variant="ghost" size="icon-sm" onClick={() => copySecret(share.secret.username ?? '', { label: 'Username' })}>
+                      <Copy className="w-4 h-4" />
+                    </Button>
+                  </dd>
+                </div>
+              )}
+              <div>
+                <dt className="text-muted-foreground">Password</dt>
+                <dd className="flex items-center gap-2">
+                  <code className="flex-1 bg-muted px-2 py-1 rounded font-mono break-all">{share.secret.password}</code>
+                  <Button variant="ghost" size="icon-sm" onClick={() => copySecret(share.secret.password, { label: 'Password' })}>
+                    <Copy className="w-4 h-4" />
+                  </Button>
+                </dd>
+              </div>
+            </dl>
+          )}
+
+          <p className="text-center text-xs text-muted-foreground">
+            Shared securely with <Link to="/auth" className="text-primary hover:underline">Personal Manager</Link>
+          </p>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
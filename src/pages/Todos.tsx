@@ -1,7 +1,7 @@
 import { useState, useEffect } from 'react';
-import { collection, addDoc, deleteDoc, doc, query, where, onSnapshot, updateDoc } from 'firebase/firestore';
-import { db } from '@/lib/firebase';
+import { Todo, todosRepository } from '@/data/todos';
 import { useAuthStore } from '@/stores/authStore';
+import { useCollection } from '@/hooks/use-collection';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
@@ -14,16 +14,6 @@ import { arrayMove, SortableContext, sortableKeyboardCoordinates, useSortable, v
 import { CSS } from '@dnd-kit/utilities';
 import { cn } from '@/lib/utils';
 
-interface Todo {
-  id: string;
-  text: string;
-  completed: boolean;
-  category: string;
-  dueDate?: string;
-  order: number;
-  createdAt: Date;
-}
-
 const categories = ['Personal', 'Work', 'Shopping', 'Health', 'Learning', 'Other'];
 
 function SortableTodo({ todo, onToggle, onDelete }: { todo: Todo; onToggle: () => void; onDelete: () => void }) {
@@ -80,6 +70,7 @@ function SortableTodo({ todo, onToggle, onDelete }: { todo: Todo; onToggle: () =
 
 export default function Todos() {
   const { user } = useAuthStore();
+  const { items } = useCollection(todosRepository);
   const [todos, setTodos] = useState<Todo[]>([]);
   const [newTodo, setNewTodo] = useState('');
   const [newCategory, setNewCategory] = useState('Personal');
@@ -92,28 +83,17 @@ export default function Todos() {
     useSensor(KeyboardSensor, { coordinateGetter: sortableKeyboardCoordinates })
   );
 
+  // Kept as local state so a drag can reorder instantly before Firestore catches up
   useEffect(() => {
-    if (!user) return;
-
-    const q = query(collection(db, 'todos'), where('userId', '==', user.uid));
-    const unsubscribe = onSnapshot(q, (snapshot) => {
-      const todosData = snapshot.docs.map((doc) => ({
-        id: doc.id,
-        ...doc.data(),
-        createdAt: doc.data().createdAt?.toDate(),
-      })) as Todo[];
-      setTodos(todosData.sort((a, b) => (a.order || 0) - (b.order || 0)));
-    });
-
-    return () => unsubscribe();
-  }, [user]);
+    setTodos([...items].sort((a, b) => a.order - b.order));
+  }, [items]);
 
   const handleAdd = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!user || !newTodo.trim()) return;
 
     try {
-      await addDoc(collection(db, 'todos'), {
+      await todosRepository.add({
         userId: user.uid,
         text: newTodo.trim(),
         completed: false,
@@ -132,7 +112,7 @@ export default function Todos() {
 
   const toggleTodo = async (id: string, completed: boolean) => {
     try {
-      await updateDoc(doc(db, 'todos', id), { completed: !completed });
+      await todosRepository.update(id, { completed: !completed });
     } catch (error) {
       toast.error('Failed to update task');
     }
@@ -140,7 +120,7 @@ export default function Todos() {
 
   const deleteTodo = async (id: string) => {
     try {
-      await deleteDoc(doc(db, 'todos', id));
+      await todosRepository.remove(id);
       toast.success('Task deleted');
     } catch (error) {
       toast.error('Failed to delete task');
@@ -160,7 +140,7 @@ export default function Todos() {
     // Update order in Firestore
     try {
       await Promise.all(
-        newOrder.map((todo, index) => updateDoc(doc(db, 'todos', todo.id), { order: index }))
+        newOrder.map((todo, index) => todosRepository.update(todo.id, { order: index }))
       );
     } catch (error) {
       toast.error('Failed to reorder tasks');
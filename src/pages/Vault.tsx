@@ -1,27 +1,20 @@
-import { useState, useEffect, useRef } from 'react';
-import { collection, addDoc, deleteDoc, doc, query, where, onSnapshot } from 'firebase/firestore';
-import { db } from '@/lib/firebase';
-import { uploadToCloudinary } from '@/lib/cloudinary';
+import { useMemo, useState, useRef } from 'react';
+import { VaultItem, vaultRepository } from '@/data/vault';
+import { getUserFolder, uploadToCloudinary } from '@/lib/cloudinary';
+import { decryptJson, encryptJson } from '@/lib/crypto';
+import { copySecret } from '@/lib/clipboard';
+import { requireRecentAuth } from '@/lib/recentAuth';
 import { useAuthStore } from '@/stores/authStore';
+import { useCollection } from '@/hooks/use-collection';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card, CardContent } from '@/components/ui/card';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { toast } from 'sonner';
-import { Plus, Search, FolderLock, Trash2, Upload, CreditCard, FileText, Image, Video, Download, Eye, Loader2 } from 'lucide-react';
+import { Plus, Search, FolderLock, Trash2, Upload, CreditCard, FileText, Image, Video, Download, Eye, Loader2, Copy } from 'lucide-react';
 import { cn } from '@/lib/utils';
 
-interface VaultItem {
-  id: string;
-  name: string;
-  type: 'card' | 'document' | 'photo' | 'video' | 'other';
-  url: string;
-  thumbnail?: string;
-  metadata?: Record<string, string>;
-  createdAt: Date;
-}
-
 const itemTypes = [
   { value: 'card', label: 'Card', icon: CreditCard },
   { value: 'document', label: 'Document', icon: FileText },
@@ -31,8 +24,8 @@ const itemTypes = [
 ];
 
 export default function Vault() {
-  const { user } = useAuthStore();
-  const [items, setItems] = useState<VaultItem[]>([]);
+  const { user, masterKey } = useAuthStore();
+  const { items: vaultItems } = useCollection(vaultRepository);
   const [searchQuery, setSearchQuery] = useState('');
   const [filterType, setFilterType] = useState<string>('all');
   const [isDialogOpen, setIsDialogOpen] = useState(false);
@@ -44,32 +37,32 @@ export default function Vault() {
   const [name, setName] = useState('');
   const [type, setType] = useState<VaultItem['type']>('document');
   const [file, setFile] = useState<File | null>(null);
+  const [cardNumber, setCardNumber] = useState('');
 
-  useEffect(() => {
-    if (!user) return;
-
-    const q = query(collection(db, 'vault'), where('userId', '==', user.uid));
-    const unsubscribe = onSnapshot(q, (snapshot) => {
-      const itemsData = snapshot.docs.map((doc) => ({
-        id: doc.id,
-        ...doc.data(),
-        createdAt: doc.data().createdAt?.toDate(),
-      })) as VaultItem[];
-      setItems(itemsData.sort((a, b) => (b.createdAt?.getTime() || 0) - (a.createdAt?.getTime() || 0)));
-    });
-
-    return () => unsubscribe();
-  }, [user]);
+  const items = useMemo(
+    () => [...vaultItems].sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime()),
+    [vaultItems]
+  );
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!user || !name || !file) return;
+    if (!user || !masterKey || !name || !file) return;
+
+    const digits = type === 'card' ? cardNumber.replace(/[\s-]/g, '') : '';
+    if (digits && !/^\d{8,19}$/.test(digits)) {
+      toast.error('Card number must be 8 to 19 digits');
+      return;
+    }
 
     setUploading(true);
     try {
-      const result = await uploadToCloudinary(file);
+      const result = await uploadToCloudinary(file, getUserFolder(user.uid));
       
-      await addDoc(collection(db, 'vault'), {
+      await vaultRepository.add({
+        ...(digits && {
+          cardNumber: await encryptJson(masterKey, digits),
+          cardLast4: digits.slice(-4),
+        }),
         userId: user.uid,
         name,
         type,
@@ -98,20 +91,34 @@ export default function Vault() {
     setName('');
     setType('document');
     setFile(null);
+    setCardNumber('');
     if (fileInputRef.current) {
       fileInputRef.current.value = '';
     }
   };
 
   const handleDelete = async (id: string) => {
+    if (!(await requireRecentAuth('Confirm it is you before deleting this item.'))) return;
+
     try {
-      await deleteDoc(doc(db, 'vault', id));
+      await vaultRepository.remove(id);
       toast.success('Item deleted');
     } catch (error) {
       toast.error('Failed to delete item');
     }
   };
 
+  const handleCopyCardNumber = async (item: VaultItem) => {
+    if (!masterKey || !item.cardNumber) return;
+
+    try {
+      const number = await decryptJson<string>(masterKey, item.cardNumber);
+      await copySecret(number, { label: 'Card number', source: item.name });
+    } catch (error) {
+      toast.error('Failed to decrypt card number');
+    }
+  };
+
   const getTypeIcon = (itemType: string) => {
     const found = itemTypes.find((t) => t.value === itemType);
     return found?.icon || FileText;
@@ -177,6 +184,18 @@ export default function Vault() {
                   </SelectContent>
                 </Select>
               </div>
+              {type === 'card' && (
+                <div>
+                  <label className="text-sm font-medium text-foreground">Card number</label>
+                  <Input
+                    value={cardNumber}
+                    onChange={(e) => setCardNumber(e.target.value)}
+                    placeholder="1234 5678 9012 3456"
+                    inputMode="numeric"
+                    autoComplete="off"
+                  />
+                </div>
+              )}
               <div>
                 <label className="text-sm font-medium text-foreground">File *</label>
                 <div
@@ -295,10 +314,20 @@ export default function Vault() {
                     <div className="min-w-0">
                       <h3 className="font-medium text-foreground truncate">{item.name}</h3>
                       <p className="text-xs text-muted-foreground">
-                        {item.metadata?.size && formatFileSize(item.metadata.size)}
+                        {item.cardLast4 ? `•••• ${item.cardLast4}` : item.metadata?.size && formatFileSize(item.metadata.size)}
                       </p>
                     </div>
                     <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                      {item.cardNumber && (
+                        <Button
+                          variant="ghost"
+                          size="icon-sm"
+                          onClick={() => handleCopyCardNumber(item)}
+                          title="Copy card number"
+                        >
+                          <Copy className="w-4 h-4" />
+                        </Button>
+                      )}
                       <Button
                         variant="ghost"
                         size="icon-sm"
@@ -4,13 +4,26 @@ import { User } from 'firebase/auth';
 interface AuthState {
   user: User | null;
   loading: boolean;
+  locked: boolean;
+  masterKey: CryptoKey | null;
+  // This browser's record in the sessions collection
+  sessionId: string | null;
   setUser: (user: User | null) => void;
   setLoading: (loading: boolean) => void;
+  unlock: (masterKey: CryptoKey) => void;
+  lock: () => void;
+  setSessionId: (sessionId: string | null) => void;
 }
 
 export const useAuthStore = create<AuthState>((set) => ({
   user: null,
   loading: true,
-  setUser: (user) => set({ user }),
+  locked: true,
+  masterKey: null,
+  sessionId: null,
+  setUser: (user) => set(user ? { user } : { user, locked: true, masterKey: null, sessionId: null }),
   setLoading: (loading) => set({ loading }),
+  unlock: (masterKey) => set({ masterKey, locked: false }),
+  lock: () => set({ masterKey: null, locked: true }),
+  setSessionId: (sessionId) => set({ sessionId }),
 }));
@@ -0,0 +1,12 @@
+import { create } from 'zustand';
+import { RangeProvider, createHibpRangeProvider } from '@/lib/breachCheck';
+
+interface BreachState {
+  provider: RangeProvider;
+  setProvider: (provider: RangeProvider) => void;
+}
+
+export const useBreachStore = create<BreachState>((set) => ({
+  provider: createHibpRangeProvider(),
+  setProvider: (provider) => set({ provider }),
+}));
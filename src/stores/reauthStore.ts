@@ -0,0 +1,24 @@
+import { create } from 'zustand';
+
+interface ReauthState {
+  open: boolean;
+  description: string | null;
+  resolve: ((confirmed: boolean) => void) | null;
+  request: (description?: string) => Promise<boolean>;
+  settle: (confirmed: boolean) => void;
+}
+
+// Backs requireRecentAuth(): callers await the prompt shown by RecentAuthPrompt
+export const useReauthStore = create<ReauthState>((set, get) => ({
+  open: false,
+  description: null,
+  resolve: null,
+  request: (description) => {
+    get().resolve?.(false);
+    return new Promise((resolve) => set({ open: true, description: description ?? null, resolve }));
+  },
+  settle: (confirmed) => {
+    get().resolve?.(confirmed);
+    set({ open: false, resolve: null });
+  },
+}));
@@ -0,0 +1,62 @@
+import { create } from 'zustand';
+import { doc, setDoc } from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import { GeneratorOptions, defaultGeneratorOptions } from '@/lib/passwordGenerator';
+
+export interface UserSettings {
+  autoLockMinutes: number;
+  lockOnHidden: boolean;
+  generator: GeneratorOptions;
+  breachCheckEnabled: boolean;
+  // Loading icons straight from each site tells it the user's IP, so it is off until asked for
+  showFavicons: boolean;
+  clipboardClearSeconds: number;
+  // Rotation interval in days per password category; 0 means no policy
+  rotationPolicies: Record<string, number>;
+  // Set by the server when a recovery code removed the authenticator, until a new one is set up
+  mfaReenrollRequired: boolean;
+}
+
+export const defaultSettings: UserSettings = {
+  autoLockMinutes: 15,
+  lockOnHidden: true,
+  generator: defaultGeneratorOptions,
+  breachCheckEnabled: true,
+  showFavicons: false,
+  clipboardClearSeconds: 30,
+  rotationPolicies: {},
+  mfaReenrollRequired: false,
+};
+
+interface SettingsState {
+  userId: string | null;
+  settings: UserSettings;
+  loadSettings: (userId: string | null, settings?: Partial<UserSettings>) => void;
+  updateSettings: (changes: Partial<UserSettings>) => Promise<void>;
+}
+
+export const useSettingsStore = create<SettingsState>((set, get) => ({
+  userId: null,
+  settings: defaultSettings,
+  loadSettings: (userId, settings) =>
+    set({
+      userId,
+      settings: {
+        ...defaultSettings,
+        ...settings,
+        // Stored generator options predate some fields, so fill the gaps from the defaults
+        generator: {
+          ...defaultGeneratorOptions,
+          ...settings?.generator,
+          classes: { ...defaultGeneratorOptions.classes, ...settings?.generator?.classes },
+        },
+      },
+    }),
+  updateSettings: async (changes) => {
+    const { userId, settings } = get();
+    set({ settings: { ...settings, ...changes } });
+    if (userId) {
+      await setDoc(doc(db, 'settings', userId), changes, { merge: true });
+    }
+  },
+}));